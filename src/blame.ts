@@ -0,0 +1,321 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { runGit, showGitError } from './gitRunner';
+import { Repository, RepositoryManager } from './repositoryManager';
+
+// After an edit the lines are shifted at once; git is asked again once typing pauses this long
+const REBLAME_DELAY_MS = 1000;
+const MAX_CACHED_BLAMES = 20;
+// Characters of the annotation in front of each line; longer summaries are cut short
+const ANNOTATION_WIDTH = 48;
+// Commits whose messages are read with one git call
+const MESSAGE_BATCH_SIZE = 100;
+const UNCOMMITTED_HASH = /^0+$/;
+
+interface BlameCommit {
+    hash: string;
+    author: string;
+    authorMail: string;
+    authorTime: Date;
+    summary: string;
+    hover: vscode.MarkdownString;
+}
+
+interface BlameState {
+    repository: Repository;
+    // The commit that last changed each line; undefined for lines not committed yet
+    lines: (BlameCommit | undefined)[];
+    reblameTimer?: NodeJS.Timeout;
+}
+
+// Parses git blame --porcelain. Each line starts with the hash and its line numbers; the commit's
+// author and summary follow only the first time the commit appears.
+function parseBlame(output: string): { commits: Map<string, BlameCommit>; lines: (string | undefined)[] } {
+    const commits = new Map<string, BlameCommit>();
+    const lines: (string | undefined)[] = [];
+    let commit: BlameCommit | undefined;
+    let lineIndex = 0;
+
+    for (const line of output.split('\n')) {
+        const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+        if (header) {
+            const hash = header[1];
+            lineIndex = parseInt(header[2], 10) - 1;
+            commit = commits.get(hash);
+            if (!commit) {
+                commit = {
+                    hash,
+                    author: '',
+                    authorMail: '',
+                    authorTime: new Date(0),
+                    summary: '',
+                    hover: new vscode.MarkdownString(),
+                };
+                commits.set(hash, commit);
+            }
+        } else if (line.startsWith('\t')) {
+            lines[lineIndex] = commit && !UNCOMMITTED_HASH.test(commit.hash) ? commit.hash : undefined;
+        } else if (commit) {
+            const space = line.indexOf(' ');
+            const value = line.substring(space + 1);
+            switch (line.substring(0, space)) {
+                case 'author':
+                    commit.author = value;
+                    break;
+                case 'author-mail':
+                    commit.authorMail = value.replace(/^<|>$/g, '');
+                    break;
+                case 'author-time':
+                    commit.authorTime = new Date(parseInt(value, 10) * 1000);
+                    break;
+                case 'summary':
+                    commit.summary = value;
+                    break;
+            }
+        }
+    }
+    return { commits, lines };
+}
+
+// The full messages of the commits, by hash
+async function getMessages(root: string, hashes: string[]): Promise<Map<string, string>> {
+    const messages = new Map<string, string>();
+    for (let i = 0; i < hashes.length; i += MESSAGE_BATCH_SIZE) {
+        const batch = hashes.slice(i, i + MESSAGE_BATCH_SIZE);
+        const { stdout } = await runGit(root, ['show', '-s', '--format=%H%x00%B%x00', ...batch]);
+        const fields = stdout.split('\0');
+        for (let j = 0; j + 1 < fields.length; j += 2) {
+            messages.set(fields[j].trim(), fields[j + 1].trim());
+        }
+    }
+    return messages;
+}
+
+function commandLink(command: string, args: unknown[]): string {
+    return `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+}
+
+function buildHover(root: string, commit: BlameCommit, message: string): vscode.MarkdownString {
+    const hover = new vscode.MarkdownString();
+    // Lets the links run these two commands, and no others
+    hover.isTrusted = { enabledCommands: ['git-lean.showCommitDetails', 'git-lean.revealCommit'] };
+    hover.appendMarkdown(`**${escapeMarkdown(commit.author)}** &lt;${escapeMarkdown(commit.authorMail)}&gt;, `);
+    hover.appendText(commit.authorTime.toLocaleString());
+    hover.appendMarkdown('\n\n');
+    hover.appendText(message || commit.summary);
+    hover.appendMarkdown('\n\n---\n\n');
+    hover.appendMarkdown(
+        `\`${commit.hash.substring(0, 7)}\` · ` +
+            `[Show Commit Details](${commandLink('git-lean.showCommitDetails', [root, commit.hash])}) · ` +
+            `[Reveal in Graph](${commandLink('git-lean.revealCommit', [root, commit.hash])})`,
+    );
+    return hover;
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!<>|]/g, '\\$&');
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
+
+// Annotates the lines of the documents it is toggled on with the commit that last changed them
+export class BlameController implements vscode.Disposable {
+    private readonly _decorationType = vscode.window.createTextEditorDecorationType({
+        before: {
+            color: new vscode.ThemeColor('editorCodeLens.foreground'),
+            width: `${ANNOTATION_WIDTH + 2}ch`,
+            margin: '0 1em 0 0',
+        },
+    });
+    // By document URI
+    private readonly _states = new Map<string, BlameState>();
+    // Blames by repository, path, HEAD and content, so reopening or undoing back to a known state
+    // needs no git call. Insertion ordered; the oldest entry is dropped first.
+    private readonly _cache = new Map<string, (BlameCommit | undefined)[]>();
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly _repositories: RepositoryManager) {
+        this._disposables.push(
+            this._decorationType,
+            vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((e) => this.render(e))),
+            vscode.workspace.onDidChangeTextDocument((event) => this.onDidChangeDocument(event)),
+            vscode.workspace.onDidCloseTextDocument((document) => this.disable(document)),
+            // A commit or checkout changes what the lines are attributed to
+            _repositories.onDidChangeState((repository) => {
+                for (const document of vscode.workspace.textDocuments) {
+                    if (this._states.get(document.uri.toString())?.repository.root === repository.root) {
+                        this.scheduleReblame(document);
+                    }
+                }
+            }),
+        );
+    }
+
+    public async toggle(editor: vscode.TextEditor | undefined) {
+        const document = editor?.document;
+        if (!document || document.uri.scheme !== 'file') {
+            vscode.window.showInformationMessage('Blame is available for files on disk only.');
+            return;
+        }
+        if (this._states.has(document.uri.toString())) {
+            this.disable(document);
+            return;
+        }
+
+        const repository = this._repositories.getRepositoryForPath(document.uri.fsPath);
+        if (!repository) {
+            vscode.window.showErrorMessage(`'${document.uri.fsPath}' is not inside a git repository`);
+            return;
+        }
+        const state: BlameState = { repository, lines: [] };
+        this._states.set(document.uri.toString(), state);
+        try {
+            await this.blame(document, state);
+        } catch (error) {
+            this.disable(document);
+            showGitError('Failed to blame file', error);
+        }
+    }
+
+    // Blames the editor's contents rather than the file on disk, so unsaved lines line up
+    private async blame(document: vscode.TextDocument, state: BlameState) {
+        const { root } = state.repository;
+        const version = document.version;
+        const text = document.getText();
+        const relativePath = path.relative(root, document.uri.fsPath).split(path.sep).join('/');
+
+        const head = await runGit(root, ['rev-parse', '--verify', '-q', 'HEAD']).then(
+            ({ stdout }) => stdout.trim(),
+            () => '',
+        );
+        const contentHash = crypto.createHash('sha1').update(text).digest('hex');
+        const key = [root, relativePath, head, contentHash].join('\0');
+
+        let lines = this._cache.get(key);
+        if (!lines) {
+            const { stdout } = await runGit(root, ['blame', '--porcelain', '--contents', '-', '--', relativePath], {
+                input: text,
+            });
+            const blame = parseBlame(stdout);
+            const messages = await getMessages(
+                root,
+                [...blame.commits.keys()].filter((hash) => !UNCOMMITTED_HASH.test(hash)),
+            );
+            for (const commit of blame.commits.values()) {
+                commit.hover = buildHover(root, commit, messages.get(commit.hash) ?? '');
+            }
+            lines = blame.lines.map((hash) => (hash ? blame.commits.get(hash) : undefined));
+            this._cache.set(key, lines);
+            if (this._cache.size > MAX_CACHED_BLAMES) {
+                this._cache.delete(this._cache.keys().next().value as string);
+            }
+        }
+
+        // Edited, or toggled off, while git was running
+        if (document.version !== version || this._states.get(document.uri.toString()) !== state) {
+            return;
+        }
+        state.lines = [...lines];
+        this.renderDocument(document);
+    }
+
+    private scheduleReblame(document: vscode.TextDocument) {
+        const state = this._states.get(document.uri.toString());
+        if (!state) {
+            return;
+        }
+        clearTimeout(state.reblameTimer);
+        state.reblameTimer = setTimeout(() => {
+            this.blame(document, state).catch(() => {
+                // The shifted annotations stay until the next successful blame
+            });
+        }, REBLAME_DELAY_MS);
+    }
+
+    // Moves the annotations along with the edited lines; the lines an edit touched count as not committed
+    private onDidChangeDocument(event: vscode.TextDocumentChangeEvent) {
+        const { document } = event;
+        const state = this._states.get(document.uri.toString());
+        if (!state || event.contentChanges.length === 0) {
+            return;
+        }
+
+        // Ranges refer to the document before the event; applying the last one first keeps the rest valid
+        const changes = [...event.contentChanges].sort((a, b) => b.range.start.compareTo(a.range.start));
+        for (const { range, text } of changes) {
+            const { start, end } = range;
+            const insertedLines = text.split(/\r\n|\r|\n/).length - 1;
+            if (start.character === 0 && end.character === 0 && (text === '' || /[\r\n]$/.test(text))) {
+                // Whole lines removed or inserted; the line after them is untouched
+                state.lines.splice(start.line, end.line - start.line, ...new Array(insertedLines).fill(undefined));
+            } else {
+                const replacement = new Array<BlameCommit | undefined>(insertedLines + 1).fill(undefined);
+                // A line break typed at the end of a line leaves that line as it was
+                if (
+                    range.isEmpty &&
+                    /^[\r\n]/.test(text) &&
+                    document.lineAt(start.line).text.length === start.character
+                ) {
+                    replacement[0] = state.lines[start.line];
+                }
+                state.lines.splice(start.line, end.line - start.line + 1, ...replacement);
+            }
+        }
+        this.renderDocument(document);
+        this.scheduleReblame(document);
+    }
+
+    private disable(document: vscode.TextDocument) {
+        const state = this._states.get(document.uri.toString());
+        if (!state) {
+            return;
+        }
+        clearTimeout(state.reblameTimer);
+        this._states.delete(document.uri.toString());
+        this.renderDocument(document);
+    }
+
+    private renderDocument(document: vscode.TextDocument) {
+        vscode.window.visibleTextEditors.filter((e) => e.document === document).forEach((e) => this.render(e));
+    }
+
+    // The commit is named on the first of its consecutive lines only, to keep the column readable
+    private render(editor: vscode.TextEditor) {
+        const state = this._states.get(editor.document.uri.toString());
+        if (!state) {
+            editor.setDecorations(this._decorationType, []);
+            return;
+        }
+
+        const decorations: vscode.DecorationOptions[] = [];
+        for (let line = 0; line < editor.document.lineCount; line++) {
+            const commit = state.lines[line];
+            const first = line === 0 || state.lines[line - 1] !== commit;
+            let contentText = ' ';
+            if (first) {
+                contentText = commit
+                    ? truncate(
+                          `${commit.authorTime.toLocaleDateString()}  ${commit.author}  ${commit.summary}`,
+                          ANNOTATION_WIDTH,
+                      )
+                    : 'Not committed yet';
+            }
+            decorations.push({
+                range: new vscode.Range(line, 0, line, 0),
+                hoverMessage: commit?.hover,
+                renderOptions: { before: { contentText } },
+            });
+        }
+        editor.setDecorations(this._decorationType, decorations);
+    }
+
+    public dispose() {
+        for (const state of this._states.values()) {
+            clearTimeout(state.reblameTimer);
+        }
+        this._disposables.forEach((d) => d.dispose());
+    }
+}
@@ -1,148 +1,296 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
+import { runGit } from './gitRunner';
+import { getRemotes, parseTracking, TRACKING_FORMAT } from './remotes';
+import { RepositoryManager } from './repositoryManager';
+import { describeTracking, formatTracking } from './shared/tracking';
+import { UpstreamTracking } from './shared/types';
+import { getStashes } from './stashes';
+import { getTags, TagSort } from './tags';
 
 interface Branch {
+    // Without the remote name for remote branches
     name: string;
     fullName: string;
-    isRemote: boolean;
+    // Undefined for local branches
+    remote?: string;
     isHead: boolean;
+    // Local branches only
+    tracking?: UpstreamTracking;
+    // Of the last commit: Unix time for sorting, relative date and author for display
+    timestamp: number;
+    date: string;
+    author: string;
 }
 
+export type BranchSort = 'name' | 'date';
+
 export class BranchTreeProvider implements vscode.TreeDataProvider<BranchTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<BranchTreeItem | undefined | null | void> =
         new vscode.EventEmitter<BranchTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<BranchTreeItem | undefined | null | void> =
         this._onDidChangeTreeData.event;
+    private _tagSort: TagSort = 'version';
+    private _branchSort: BranchSort = 'name';
+    // Case-insensitive text the branch names must contain; empty shows every branch
+    private _filter = '';
 
-    constructor() {
-        // Watch for git changes
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders) {
-            const watcher = vscode.workspace.createFileSystemWatcher(
-                new vscode.RelativePattern(workspaceFolders[0], '.git/**'),
-            );
-            watcher.onDidChange(() => this.refresh());
-            watcher.onDidCreate(() => this.refresh());
-            watcher.onDidDelete(() => this.refresh());
-        }
+    constructor(private readonly _repositories: RepositoryManager) {
+        _repositories.onDidChangeCurrent(() => this.refresh());
+        _repositories.onDidChangeState((repository) => {
+            if (repository.root === _repositories.current?.root) {
+                this.refresh();
+            }
+        });
     }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    get filter(): string {
+        return this._filter;
+    }
+
+    setFilter(filter: string): void {
+        this._filter = filter.trim();
+        vscode.commands.executeCommand('setContext', 'gitLean.branchFilter', !!this._filter);
+        this.refresh();
+    }
+
+    setBranchSort(sort: BranchSort): void {
+        this._branchSort = sort;
+        vscode.commands.executeCommand('setContext', 'gitLean.branchSort', sort);
+        this.refresh();
+    }
+
+    setTagSort(sort: TagSort): void {
+        this._tagSort = sort;
+        vscode.commands.executeCommand('setContext', 'gitLean.tagSort', sort);
+        this.refresh();
+    }
+
     getTreeItem(element: BranchTreeItem): vscode.TreeItem {
         return element;
     }
 
     async getChildren(element?: BranchTreeItem): Promise<BranchTreeItem[]> {
         if (!element) {
-            // Root level - show HEAD, Local, and Remote sections
+            // Root level - show HEAD, Local, Remote, Tags and Stashes sections
             const currentBranch = await this.getCurrentBranch();
             const items: BranchTreeItem[] = [];
 
             if (currentBranch) {
-                items.push(
-                    new BranchTreeItem(
-                        `HEAD (${currentBranch})`,
-                        vscode.TreeItemCollapsibleState.None,
-                        'head',
-                        currentBranch,
-                    ),
+                const head = new BranchTreeItem(
+                    `HEAD (${currentBranch})`,
+                    vscode.TreeItemCollapsibleState.None,
+                    'head',
+                    currentBranch,
                 );
+                const tracking = (await this.getBranches()).find((b) => b.isHead)?.tracking;
+                head.setTracking(tracking);
+                head.tooltip = tracking && describeTracking(tracking);
+                items.push(head);
             }
 
             items.push(
                 new BranchTreeItem('Local', vscode.TreeItemCollapsibleState.Expanded, 'folder'),
                 new BranchTreeItem('Remote', vscode.TreeItemCollapsibleState.Expanded, 'folder'),
+                new BranchTreeItem('Tags', vscode.TreeItemCollapsibleState.Collapsed, 'tag-folder'),
+                new BranchTreeItem('Stashes', vscode.TreeItemCollapsibleState.Collapsed, 'folder'),
             );
 
             return items;
-        } else if (element.contextValue === 'folder') {
-            // Show branches under Local or Remote
-            const branches = await this.getBranches();
-            const isLocal = element.label === 'Local';
-
-            return branches
-                .filter((branch) => (isLocal ? !branch.isRemote : branch.isRemote))
+        } else if (element.contextValue === 'tag-folder') {
+            const cwd = this._repositories.current?.root;
+            const tags = cwd ? await getTags(cwd, this._tagSort) : [];
+            return tags.map((tag) => {
+                const item = new BranchTreeItem(tag.name, vscode.TreeItemCollapsibleState.None, 'tag', tag.name);
+                item.description = tag.message;
+                item.tooltip = `${tag.name} at ${tag.hash.substring(0, 7)}\n${tag.date}${tag.message ? `\n\n${tag.message}` : ''}`;
+                return item;
+            });
+        } else if (element.contextValue === 'folder' && element.label === 'Stashes') {
+            const cwd = this._repositories.current?.root;
+            const stashes = cwd ? await getStashes(cwd) : [];
+            return stashes.map((stash) => {
+                const item = new BranchTreeItem(
+                    stash.message,
+                    vscode.TreeItemCollapsibleState.None,
+                    'stash',
+                    stash.ref,
+                );
+                item.tooltip = `${stash.ref}: ${stash.message}\n${stash.date}`;
+                return item;
+            });
+        } else if (element.contextValue === 'folder' && element.label === 'Remote') {
+            const cwd = this._repositories.current?.root;
+            const remotes = cwd ? await getRemotes(cwd) : [];
+            const branches = this._filter ? await this.getBranches() : [];
+            return remotes
+                .filter((remote) => !this._filter || branches.some((b) => b.remote === remote && this.matchesFilter(b)))
                 .map(
-                    (branch) =>
-                        new BranchTreeItem(
-                            branch.name,
-                            vscode.TreeItemCollapsibleState.None,
-                            isLocal ? (branch.isHead ? 'local-branch-head' : 'local-branch') : 'remote-branch',
-                            branch.fullName,
-                            branch.isHead,
-                        ),
+                    (remote) => new BranchTreeItem(remote, vscode.TreeItemCollapsibleState.Expanded, 'remote', remote),
                 );
+        } else if (element.contextValue === 'folder' && element.label === 'Local') {
+            const branches = await this.getBranches();
+            return this.getBranchItems(
+                branches.filter((b) => !b.remote),
+                '',
+            );
+        } else if (element.contextValue === 'branch-folder') {
+            const branches = await this.getBranches();
+            return this.getBranchItems(
+                branches.filter((b) => !b.remote),
+                element.branchName!,
+            );
+        } else if (element.contextValue === 'remote' || element.contextValue === 'remote-branch-folder') {
+            const branches = await this.getBranches();
+            const remote = element.contextValue === 'remote' ? element.branchName : undefined;
+            return this.getBranchItems(
+                branches.filter((b) => b.remote && (!remote || b.remote === remote)),
+                element.branchName!,
+            );
         }
 
         return [];
     }
 
-    private async getCurrentBranch(): Promise<string | null> {
-        return new Promise((resolve) => {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
-                resolve(null);
-                return;
+    private matchesFilter(branch: Branch): boolean {
+        return branch.fullName.toLowerCase().includes(this._filter.toLowerCase());
+    }
+
+    // The folders and branches directly under path, which is a prefix of the branches' full names
+    // (the remote name for the top of a remote). Slashes in branch names make folders.
+    private getBranchItems(branches: Branch[], path: string): BranchTreeItem[] {
+        const folders = new Set<string>();
+        const leaves: Branch[] = [];
+        for (const branch of branches) {
+            if ((path && !branch.fullName.startsWith(`${path}/`)) || !this.matchesFilter(branch)) {
+                continue;
             }
+            const rest = path ? branch.fullName.substring(path.length + 1) : branch.fullName;
+            const slash = rest.indexOf('/');
+            if (slash >= 0) {
+                folders.add(rest.substring(0, slash));
+            } else {
+                leaves.push(branch);
+            }
+        }
 
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.exec('git rev-parse --abbrev-ref HEAD', { cwd }, (error, stdout, _stderr) => {
-                if (error) {
-                    resolve(null);
-                    return;
-                }
-                resolve(stdout.trim());
-            });
+        const isRemote = branches.some((b) => b.remote);
+        // Folders stay open while filtering, so the matches show
+        const folderState = this._filter
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : vscode.TreeItemCollapsibleState.Collapsed;
+        const folderItems = Array.from(folders)
+            .sort((a, b) => a.localeCompare(b))
+            .map(
+                (folder) =>
+                    new BranchTreeItem(
+                        folder,
+                        folderState,
+                        isRemote ? 'remote-branch-folder' : 'branch-folder',
+                        path ? `${path}/${folder}` : folder,
+                    ),
+            );
+
+        if (this._branchSort === 'date') {
+            leaves.sort((a, b) => b.timestamp - a.timestamp);
+        } else {
+            leaves.sort((a, b) => a.fullName.localeCompare(b.fullName));
+        }
+        const branchItems = leaves.map((branch) => {
+            const item = new BranchTreeItem(
+                path ? branch.fullName.substring(path.length + 1) : branch.fullName,
+                vscode.TreeItemCollapsibleState.None,
+                branch.remote ? 'remote-branch' : branch.isHead ? 'local-branch-head' : 'local-branch',
+                branch.fullName,
+                branch.isHead,
+            );
+            item.remote = branch.remote;
+            item.setTracking(branch.tracking);
+            item.tooltip = [
+                branch.fullName,
+                `Last commit ${branch.date} by ${branch.author}`,
+                branch.tracking && describeTracking(branch.tracking),
+            ]
+                .filter(Boolean)
+                .join('\n');
+            return item;
         });
+
+        return [...folderItems, ...branchItems];
+    }
+
+    private async getCurrentBranch(): Promise<string | null> {
+        const cwd = this._repositories.current?.root;
+        if (!cwd) {
+            return null;
+        }
+
+        try {
+            const { stdout } = await runGit(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']);
+            return stdout.trim();
+        } catch {
+            return null;
+        }
     }
 
     private async getBranches(): Promise<Branch[]> {
-        return new Promise((resolve) => {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
-                resolve([]);
-                return;
+        const cwd = this._repositories.current?.root;
+        if (!cwd) {
+            return [];
+        }
+
+        let stdout: string;
+        try {
+            ({ stdout } = await runGit(cwd, [
+                'for-each-ref',
+                `--format=%(refname)%00%(HEAD)%00%(committerdate:unix)%00%(committerdate:relative)%00%(authorname)%00${TRACKING_FORMAT}`,
+                'refs/heads',
+                'refs/remotes',
+            ]));
+        } catch {
+            return [];
+        }
+
+        // Remote names can contain slashes, so the longest matching one wins
+        const remotes = (await getRemotes(cwd)).sort((a, b) => b.length - a.length);
+        const branches: Branch[] = [];
+        for (const line of stdout.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            const [refName, head, timestamp, date, author, upstream, track] = line.split('\0');
+            const lastCommit = { timestamp: parseInt(timestamp, 10), date, author };
+            if (refName.startsWith('refs/heads/')) {
+                const name = refName.substring('refs/heads/'.length);
+                branches.push({
+                    name,
+                    fullName: name,
+                    isHead: head === '*',
+                    tracking: parseTracking(upstream, track),
+                    ...lastCommit,
+                });
+                continue;
             }
 
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.exec('git branch -a --format="%(refname:short)|%(HEAD)"', { cwd }, (error, stdout, _stderr) => {
-                if (error) {
-                    resolve([]);
-                    return;
-                }
-
-                const branches: Branch[] = stdout
-                    .split('\n')
-                    .filter((line) => line.trim())
-                    .map((line) => {
-                        const [fullName, head] = line.split('|');
-                        const isRemote = fullName.startsWith('origin/') || fullName.startsWith('upstream/');
-                        const name = isRemote ? fullName.replace(/^(origin|upstream)\//, '') : fullName;
-
-                        // Filter out remote HEAD pointers
-                        if (fullName.includes('origin/HEAD') || fullName.includes('upstream/HEAD')) {
-                            return null;
-                        }
-
-                        return {
-                            name,
-                            fullName,
-                            isRemote,
-                            isHead: head === '*',
-                        };
-                    })
-                    .filter((branch): branch is Branch => branch !== null);
-
-                resolve(branches);
-            });
-        });
+            const fullName = refName.substring('refs/remotes/'.length);
+            const remote = remotes.find((r) => fullName.startsWith(`${r}/`)) ?? fullName.split('/')[0];
+            const name = fullName.substring(remote.length + 1);
+            // Skip the remote HEAD pointers
+            if (name && name !== 'HEAD') {
+                branches.push({ name, fullName, remote, isHead: false, ...lastCommit });
+            }
+        }
+        return branches;
     }
 }
 
 export class BranchTreeItem extends vscode.TreeItem {
+    // The remote of a remote branch; branchName then starts with it
+    remote?: string;
+
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
@@ -166,10 +314,31 @@ export class BranchTreeItem extends vscode.TreeItem {
             this.description = '✓';
         } else if (contextValue === 'local-branch') {
             this.iconPath = new vscode.ThemeIcon('git-branch');
+        } else if (contextValue === 'remote') {
+            this.iconPath = new vscode.ThemeIcon('remote');
         } else if (contextValue === 'remote-branch') {
             this.iconPath = new vscode.ThemeIcon('cloud');
-        } else if (contextValue === 'folder') {
+        } else if (contextValue === 'tag') {
+            this.iconPath = new vscode.ThemeIcon('tag');
+        } else if (contextValue === 'stash') {
+            this.iconPath = new vscode.ThemeIcon('archive');
+            this.description = branchName;
+        } else if (
+            contextValue === 'folder' ||
+            contextValue === 'tag-folder' ||
+            contextValue === 'branch-folder' ||
+            contextValue === 'remote-branch-folder'
+        ) {
             this.iconPath = new vscode.ThemeIcon('folder');
         }
     }
+
+    // Appends the upstream and the ahead/behind counts to the description
+    setTracking(tracking: UpstreamTracking | undefined) {
+        if (!tracking) {
+            return;
+        }
+        const upstream = tracking.gone ? `${tracking.upstream} (gone)` : tracking.upstream;
+        this.description = [this.description, formatTracking(tracking), upstream].filter(Boolean).join(' ');
+    }
 }
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { runGit, showGitError } from './gitRunner';
+import { validateRefName } from './refNames';
+import { withProgress } from './remotes';
+
+// Also used for the names given to checkout -b and stash branch, which cannot take them after '--'
+export function validateBranchName(value: string): string | null {
+    return validateRefName('Branch', value);
+}
+
+// The upstream of a local branch as a short name; undefined when the branch does not exist,
+// an empty string when it tracks nothing
+async function getLocalBranch(cwd: string, name: string): Promise<{ upstream: string } | undefined> {
+    // for-each-ref also lists the branches under name/, so the full ref name is compared
+    const { stdout } = await runGit(cwd, [
+        'for-each-ref',
+        '--format=%(refname)%00%(upstream:short)',
+        `refs/heads/${name}`,
+    ]);
+    const line = stdout.split('\n').find((l) => l.startsWith(`refs/heads/${name}\0`));
+    return line === undefined ? undefined : { upstream: line.split('\0')[1] };
+}
+
+export async function checkoutBranch(cwd: string, name: string) {
+    try {
+        await runGit(cwd, ['checkout', name]);
+    } catch (error) {
+        showGitError('Failed to checkout branch', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Switched to branch '${name}'`);
+}
+
+// Checks out a remote branch on a local branch tracking it: the existing one if it already does,
+// otherwise a new one named after it, or a name the user picks when that one is taken
+export async function checkoutRemoteBranch(cwd: string, remote: string, name: string) {
+    const remoteBranch = `${remote}/${name}`;
+    let localName = name;
+    try {
+        const local = await getLocalBranch(cwd, name);
+        if (local?.upstream === remoteBranch) {
+            await checkoutBranch(cwd, name);
+            return;
+        }
+        if (local) {
+            const picked = await vscode.window.showInputBox({
+                prompt: `A local branch '${name}' already exists; name the branch that tracks '${remoteBranch}'`,
+                value: `${remote}-${name}`,
+                validateInput: validateBranchName,
+            });
+            if (!picked) {
+                return;
+            }
+            localName = picked;
+        }
+        await runGit(cwd, ['checkout', '-b', localName, '--track', remoteBranch]);
+    } catch (error) {
+        showGitError('Failed to checkout branch', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Switched to branch '${localName}', tracking '${remoteBranch}'`);
+}
+
+export async function checkoutCommit(cwd: string, commitHash: string) {
+    try {
+        await runGit(cwd, ['checkout', '--detach', commitHash]);
+    } catch (error) {
+        showGitError('Failed to checkout commit', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`HEAD is now detached at ${commitHash.substring(0, 7)}`);
+}
+
+export async function renameBranch(cwd: string, name: string) {
+    const newName = await vscode.window.showInputBox({
+        prompt: `Rename branch '${name}'`,
+        value: name,
+        validateInput: (value) => (value === name ? 'Enter a new name' : validateBranchName(value)),
+    });
+    if (!newName) {
+        return;
+    }
+    try {
+        await runGit(cwd, ['branch', '-m', '--', name, newName]);
+    } catch (error) {
+        showGitError('Failed to rename branch', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Renamed branch '${name}' to '${newName}'`);
+}
+
+// Whether git branch -d accepts the branch: its commits are all in its upstream, or in HEAD when it
+// has none. Asked of git directly, as the message -d fails with is translated.
+async function isFullyMerged(cwd: string, name: string): Promise<boolean> {
+    const ref = `refs/heads/${name}`;
+    const { stdout } = await runGit(cwd, ['for-each-ref', '--format=%(upstream)', ref]);
+    const upstream = stdout.trim();
+    const upstreamExists =
+        !!upstream &&
+        (await runGit(cwd, ['rev-parse', '--verify', '-q', upstream]).then(
+            () => true,
+            () => false,
+        ));
+    return runGit(cwd, ['merge-base', '--is-ancestor', ref, upstreamExists ? upstream : 'HEAD']).then(
+        () => true,
+        () => false,
+    );
+}
+
+// Deletes a local branch. One that is not merged into its upstream or HEAD is only deleted after
+// a second, explicit confirmation, since its commits may then be lost.
+export async function deleteBranch(cwd: string, name: string) {
+    const confirm = await vscode.window.showWarningMessage(
+        `Are you sure you want to delete branch '${name}'?`,
+        'Yes',
+        'No',
+    );
+    if (confirm !== 'Yes') {
+        return;
+    }
+
+    try {
+        const merged = await isFullyMerged(cwd, name);
+        if (!merged) {
+            const force = await vscode.window.showWarningMessage(
+                `Branch '${name}' is not fully merged. Commits that only it contains will be lost. Delete it anyway?`,
+                { modal: true },
+                'Force Delete',
+            );
+            if (!force) {
+                return;
+            }
+        }
+        await runGit(cwd, ['branch', merged ? '-d' : '-D', '--', name]);
+    } catch (error) {
+        showGitError('Failed to delete branch', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Deleted branch '${name}'`);
+}
+
+// Deletes the branch on the remote; local branches tracking it are kept
+export async function deleteRemoteBranch(cwd: string, remote: string, name: string) {
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete branch '${name}' from ${remote}? Anyone working on it will no longer be able to pull it.`,
+        { modal: true },
+        'Delete',
+    );
+    if (!confirm) {
+        return;
+    }
+    try {
+        await withProgress(`Deleting branch '${name}' from ${remote}`, () =>
+            runGit(cwd, ['push', remote, '--delete', `refs/heads/${name}`]),
+        );
+    } catch (error) {
+        showGitError('Failed to delete remote branch', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Deleted branch '${name}' from ${remote}`);
+}
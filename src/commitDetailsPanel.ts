@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseNumstat } from './compare';
+import { GitError, runGit, showGitError } from './gitRunner';
+import { Repository } from './repositoryManager';
+import { toRevisionUri } from './revisionContentProvider';
+import {
+    CommitDetailsHostMessage,
+    CommitDetailsMessage,
+    CommitFile,
+    DiffOptions,
+    DiffParent,
+    FileStatus,
+} from './shared/types';
+import { getCommitDetailsHtml } from './webviewContent';
+
+const DIFF_OPTIONS_KEY = 'gitLean.diffOptions';
+const DEFAULT_DIFF_OPTIONS: DiffOptions = { layout: 'unified', whitespace: 'show' };
+
+const WHITESPACE_ARGS: Record<DiffOptions['whitespace'], string[]> = {
+    show: [],
+    ignoreChange: ['--ignore-space-change'],
+    ignoreAll: ['--ignore-all-space'],
+};
+
+// Patches past this size are not loaded; the webview offers the diff editor instead
+const MAX_PATCH_BYTES = 4 * 1024 * 1024;
+// Output of the descendants walk that looks for a commit's children, about 100,000 commits; children
+// of older commits are not looked for
+const MAX_DESCENDANTS_BYTES = 8 * 1024 * 1024;
+
+const FILE_STATUSES: Record<string, FileStatus> = { A: 'added', D: 'deleted', R: 'renamed', C: 'copied' };
+
+// Diffs the commit without its message, with renames and copies detected. A merge is diffed against the
+// chosen parent or shown as a combined diff; parent is undefined for other commits.
+function diffArgs(commitHash: string, options: DiffOptions, parent: DiffParent | undefined, extra: string[]) {
+    const flags = ['-M', '-C', ...WHITESPACE_ARGS[options.whitespace], ...extra];
+    if (parent === undefined) {
+        return ['show', '--format=', ...flags, commitHash];
+    }
+    if (parent === 'combined') {
+        return ['show', '--format=', '--cc', ...flags, commitHash];
+    }
+    return ['diff', ...flags, `${commitHash}^${parent}`, commitHash];
+}
+
+// The changed files with their stats, without any diff content, so huge commits open quickly
+async function getFiles(cwd: string, commitHash: string, options: DiffOptions, parent?: DiffParent) {
+    const output = await runGit(cwd, diffArgs(commitHash, options, parent, ['--raw', '--numstat', '-z'])).then(
+        ({ stdout }) => stdout,
+        () => '',
+    );
+    const fields = output.split('\0');
+
+    const stats = parseNumstat(output);
+
+    // Raw entries start with one colon per parent, then the modes of the parents and the commit, their
+    // blob hashes and one status letter per parent, followed by the path, or the old and new paths of a
+    // rename or copy
+    const files: CommitFile[] = [];
+    for (let i = 0; i < fields.length; i++) {
+        const match = fields[i].match(/^(:+)(.*)$/);
+        if (!match) {
+            continue;
+        }
+        const parents = match[1].length;
+        const parts = match[2].split(' ');
+        const modes = parts.slice(0, parents + 1);
+        const letters = parts[2 * parents + 2] ?? '';
+        // In a combined diff a file only counts as added or deleted when it is against every parent
+        const letter = parents === 1 ? letters[0] : new Set(letters).size === 1 ? letters[0] : 'M';
+        const status = FILE_STATUSES[letter] ?? 'modified';
+        const oldPath = status === 'renamed' || status === 'copied' ? fields[++i] : fields[i + 1];
+        const filePath = fields[++i];
+        const [oldMode, newMode] = [modes[0], modes[modes.length - 1]];
+        files.push({
+            filePath,
+            oldPath,
+            status,
+            similarity: status === 'renamed' || status === 'copied' ? parseInt(letters.substring(1), 10) : undefined,
+            oldMode: status === 'added' || (status !== 'deleted' && oldMode === newMode) ? undefined : oldMode,
+            newMode: status === 'deleted' || (status !== 'added' && oldMode === newMode) ? undefined : newMode,
+            ...(stats.get(filePath) ?? { added: 0, removed: 0, binary: false }),
+        });
+    }
+    return files;
+}
+
+// The patch of one file; both paths are passed so renames and copies are still detected. Rejects with
+// an outputTooLarge GitError for patches over MAX_PATCH_BYTES.
+async function getFileDiff(
+    cwd: string,
+    commitHash: string,
+    options: DiffOptions,
+    parent: DiffParent | undefined,
+    paths: string[],
+): Promise<string> {
+    // Paths with non-ASCII characters are then printed as they are instead of octal escapes
+    const args = ['-c', 'core.quotePath=false', ...diffArgs(commitHash, options, parent, []), '--', ...new Set(paths)];
+    const { stdout } = await runGit(cwd, args, { maxBuffer: MAX_PATCH_BYTES });
+    return stdout;
+}
+
+// Where the commit sits: the commits made on top of it, and the branches and tags whose history holds it.
+// Walking the descendants takes a while in large repositories, so this is sent once the panel shows.
+// children is null when the commit has too many descendants to look through.
+async function getRelations(cwd: string, commitHash: string) {
+    // Each descendant is listed with its parents; the children have the commit among them
+    const children = await runGit(
+        cwd,
+        ['rev-list', '--parents', '--ancestry-path', 'HEAD', '--branches', '--remotes', '--tags', `^${commitHash}`],
+        { maxBuffer: MAX_DESCENDANTS_BYTES },
+    ).then(
+        ({ stdout }) =>
+            stdout
+                .split('\n')
+                .map((line) => line.split(' '))
+                .filter(([, ...parents]) => parents.includes(commitHash))
+                .map(([child]) => child),
+        (error) => {
+            if (error instanceof GitError && error.kind === 'outputTooLarge') {
+                return null;
+            }
+            throw error;
+        },
+    );
+
+    const { stdout } = await runGit(cwd, [
+        'for-each-ref',
+        '--contains',
+        commitHash,
+        '--format=%(refname)',
+        'refs/heads',
+        'refs/remotes',
+        'refs/tags',
+    ]);
+    const refs = stdout.split('\n').filter((ref) => ref && !ref.endsWith('/HEAD'));
+    const branches = refs
+        .filter((ref) => !ref.startsWith('refs/tags/'))
+        .map((ref) => ref.replace(/^refs\/(heads|remotes)\//, ''));
+    const tags = refs.filter((ref) => ref.startsWith('refs/tags/')).map((ref) => ref.substring('refs/tags/'.length));
+    return { children, branches, tags };
+}
+
+// What the panel needs from the extension
+export interface CommitDetailsHost {
+    extensionUri: vscode.Uri;
+    // Where the diff options are remembered
+    globalState: vscode.Memento;
+    // Selects the commit in the Commit Tree view
+    revealInGraph(repository: Repository, commitHash: string): void;
+}
+
+export class CommitDetailsPanel {
+    private readonly _disposables: vscode.Disposable[] = [];
+    // Counts file list loads, so a slow one, or a diff loaded for an earlier list, does not overwrite
+    // what a later choice shows
+    private _fileLoads = 0;
+
+    private constructor(
+        private readonly _host: CommitDetailsHost,
+        private readonly _panel: vscode.WebviewPanel,
+        private readonly _repository: Repository,
+        private readonly _commitHash: string,
+        private _diffOptions: DiffOptions,
+        private _parent: DiffParent | undefined,
+    ) {
+        _panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        _panel.webview.onDidReceiveMessage(
+            (message: CommitDetailsMessage) => this.handleMessage(message),
+            null,
+            this._disposables,
+        );
+    }
+
+    // focusPath expands only that file's diff (or the files under that folder) and scrolls to it
+    public static async show(host: CommitDetailsHost, repository: Repository, commitHash: string, focusPath?: string) {
+        const { extensionUri } = host;
+        const git = (args: string[]) =>
+            runGit(repository.root, args).then(
+                ({ stdout }) => stdout,
+                () => '',
+            );
+
+        const metaLines = (await git(['log', '-1', '--format=%H%n%ae%n%an%n%aI%n%cI%n%P%n%s', commitHash])).split('\n');
+        const body = (await git(['log', '-1', '--format=%b', commitHash])).trim();
+        const diffOptions = {
+            ...DEFAULT_DIFF_OPTIONS,
+            ...host.globalState.get<DiffOptions>(DIFF_OPTIONS_KEY),
+        };
+
+        const [
+            fullHash = commitHash,
+            authorEmail = '',
+            authorName = '',
+            authorDate = '',
+            commitDate = '',
+            parentLine = '',
+            subject = '',
+        ] = metaLines;
+        const parents = parentLine.split(' ').filter(Boolean);
+        // Merges start out diffed against the branch they were merged into
+        const parent = parents.length > 1 ? 1 : undefined;
+        const files = await getFiles(repository.root, commitHash, diffOptions, parent);
+
+        const panel = vscode.window.createWebviewPanel(
+            'gitLeanCommitDetails',
+            `Commit ${commitHash.substring(0, 7)}`,
+            vscode.ViewColumn.One,
+            { enableScripts: true },
+        );
+
+        panel.webview.options = { enableScripts: true, localResourceRoots: [extensionUri] };
+        panel.webview.html = getCommitDetailsHtml(
+            panel.webview,
+            {
+                fullHash,
+                authorEmail,
+                authorName,
+                authorDate,
+                commitDate,
+                subject,
+                body,
+                parents,
+                parent,
+                files,
+                focusPath,
+                diffOptions,
+            },
+            extensionUri,
+        );
+        new CommitDetailsPanel(host, panel, repository, fullHash, diffOptions, parent);
+    }
+
+    private handleMessage(message: CommitDetailsMessage) {
+        switch (message.command) {
+            case 'ready':
+                this.postRelations();
+                break;
+            case 'showCommit':
+                CommitDetailsPanel.show(this._host, this._repository, message.hash);
+                break;
+            case 'revealInGraph':
+                this._host.revealInGraph(this._repository, this._commitHash);
+                break;
+            case 'setDiffOptions':
+                this.setDiffOptions(message.options);
+                break;
+            case 'setParent':
+                this._parent = message.parent;
+                this.reloadFiles();
+                break;
+            case 'loadFileDiff':
+                this.loadFileDiff(message.path, message.oldPath);
+                break;
+            case 'openDiff':
+                this.openDiff(message.path, message.oldPath);
+                break;
+            case 'openFileAtRevision':
+                this.openFileAtRevision(message.path, message.deleted);
+                break;
+            case 'compareWithWorkingTree':
+                this.compareWithWorkingTree(message.path);
+                break;
+        }
+    }
+
+    // The layout is applied by the webview; ignoring whitespace changes the stats and the diffs
+    private setDiffOptions(options: DiffOptions) {
+        const reload = options.whitespace !== this._diffOptions.whitespace;
+        this._diffOptions = options;
+        this._host.globalState.update(DIFF_OPTIONS_KEY, options);
+        if (reload) {
+            this.reloadFiles();
+        }
+    }
+
+    private async postRelations() {
+        let message: CommitDetailsHostMessage;
+        try {
+            message = { command: 'setRelations', ...(await getRelations(this._repository.root, this._commitHash)) };
+        } catch (error) {
+            showGitError('Failed to find the branches holding the commit', error);
+            message = { command: 'setRelationsFailed' };
+        }
+        this._panel.webview.postMessage(message);
+    }
+
+    private async reloadFiles() {
+        const load = ++this._fileLoads;
+        const files = await getFiles(this._repository.root, this._commitHash, this._diffOptions, this._parent);
+        if (load !== this._fileLoads) {
+            return;
+        }
+        const message: CommitDetailsHostMessage = { command: 'setFiles', files };
+        this._panel.webview.postMessage(message);
+    }
+
+    private async loadFileDiff(filePath: string, oldPath: string) {
+        const load = this._fileLoads;
+        let message: CommitDetailsHostMessage;
+        try {
+            const patch = await getFileDiff(this._repository.root, this._commitHash, this._diffOptions, this._parent, [
+                oldPath,
+                filePath,
+            ]);
+            message = { command: 'setFileDiff', path: filePath, patch };
+        } catch (error) {
+            // The command log has git's output
+            const failure = error instanceof GitError && error.kind === 'outputTooLarge' ? 'tooLarge' : 'failed';
+            message = { command: 'setFileDiffFailed', path: filePath, failure };
+        }
+        if (load !== this._fileLoads) {
+            return;
+        }
+        this._panel.webview.postMessage(message);
+    }
+
+    private get shortHash(): string {
+        return this._commitHash.substring(0, 7);
+    }
+
+    // The parent the diff is shown against; the first one for a combined diff
+    private get parentSuffix(): string {
+        return typeof this._parent === 'number' ? `^${this._parent}` : '^';
+    }
+
+    // The parent's version against the commit's; a side missing at either revision is empty
+    private openDiff(filePath: string, oldPath: string) {
+        const root = this._repository.root;
+        vscode.commands.executeCommand(
+            'vscode.diff',
+            toRevisionUri(root, oldPath, `${this._commitHash}${this.parentSuffix}`),
+            toRevisionUri(root, filePath, this._commitHash),
+            `${path.basename(filePath)} (${this.shortHash}${this.parentSuffix} ↔ ${this.shortHash})`,
+        );
+    }
+
+    // A file the commit deleted is opened as it was just before
+    private openFileAtRevision(filePath: string, deleted: boolean) {
+        const ref = deleted ? `${this._commitHash}${this.parentSuffix}` : this._commitHash;
+        vscode.window.showTextDocument(toRevisionUri(this._repository.root, filePath, ref), { preview: true });
+    }
+
+    private compareWithWorkingTree(filePath: string) {
+        const root = this._repository.root;
+        vscode.commands.executeCommand(
+            'vscode.diff',
+            toRevisionUri(root, filePath, this._commitHash),
+            vscode.Uri.file(path.join(root, filePath)),
+            `${path.basename(filePath)} (${this.shortHash} ↔ Working Tree)`,
+        );
+    }
+
+    private dispose() {
+        this._disposables.forEach((d) => d.dispose());
+    }
+}
@@ -0,0 +1,70 @@
+import { runGit } from './gitRunner';
+import { ComparedFile } from './shared/types';
+
+export interface Comparison {
+    // The revision the right one is compared against: the left one, or in a three-dot comparison
+    // their merge base
+    base: string;
+    right: string;
+    files: ComparedFile[];
+}
+
+export interface FileStats {
+    added: number;
+    removed: number;
+    binary: boolean;
+}
+
+// Reads the output of git diff --numstat -z, which may be mixed with that of --raw, into the stats of
+// each file by its new path. Entries are "a\tb\tpath", or "a\tb\t" followed by the old and new paths
+// of a rename; binary files count '-' lines.
+export function parseNumstat(output: string): Map<string, FileStats> {
+    const stats = new Map<string, FileStats>();
+    const fields = output.split('\0');
+    for (let i = 0; i < fields.length; i++) {
+        const match = fields[i].match(/^(\d+|-)\t(\d+|-)\t(.*)$/s);
+        if (!match) {
+            continue;
+        }
+        const filePath = match[3] || fields[(i += 2)];
+        stats.set(filePath, {
+            added: parseInt(match[1], 10) || 0,
+            removed: parseInt(match[2], 10) || 0,
+            binary: match[1] === '-',
+        });
+    }
+    return stats;
+}
+
+// Lists the files that differ between two revisions. A two-dot comparison shows every difference
+// between them; a three-dot one only the changes made on right since it diverged from left.
+export async function getComparison(cwd: string, left: string, right: string, threeDot: boolean): Promise<Comparison> {
+    const rightHash = (await runGit(cwd, ['rev-parse', '--verify', `${right}^{commit}`])).stdout.trim();
+    const base = threeDot
+        ? (await runGit(cwd, ['merge-base', left, rightHash])).stdout.trim()
+        : (await runGit(cwd, ['rev-parse', '--verify', `${left}^{commit}`])).stdout.trim();
+
+    const nameStatus = (await runGit(cwd, ['diff', '-M', '-z', '--name-status', base, rightHash])).stdout;
+    const numstat = (await runGit(cwd, ['diff', '-M', '-z', '--numstat', base, rightHash])).stdout;
+
+    const stats = parseNumstat(numstat);
+
+    // Entries are the status, then the path, or the old and new paths for renames and copies
+    const files: ComparedFile[] = [];
+    const fields = nameStatus.split('\0');
+    for (let i = 0; i < fields.length; i++) {
+        const status = fields[i][0];
+        if (!status) {
+            continue;
+        }
+        const oldPath = status === 'R' || status === 'C' ? fields[++i] : undefined;
+        const filePath = fields[++i];
+        files.push({
+            path: filePath,
+            oldPath,
+            status,
+            ...(stats.get(filePath) ?? { added: 0, removed: 0, binary: false }),
+        });
+    }
+    return { base, right: rightHash, files };
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getComparison } from './compare';
+import { showGitError } from './gitRunner';
+import { Repository } from './repositoryManager';
+import { toRevisionUri } from './revisionContentProvider';
+import { ComparedFile, CompareHostMessage, CompareWebviewMessage } from './shared/types';
+import { getCompareHtml } from './webviewContent';
+
+// A side of the comparison: what git resolves, and how it is shown
+export interface CompareRevision {
+    ref: string;
+    label: string;
+}
+
+export class ComparePanel {
+    private static currentPanel: ComparePanel | undefined;
+    private readonly _disposables: vscode.Disposable[] = [];
+    // The commits the files were last listed between; the diffs open at these, even if refs moved since
+    private _baseHash?: string;
+    private _rightHash?: string;
+
+    private constructor(
+        private readonly _panel: vscode.WebviewPanel,
+        private readonly _repository: Repository,
+        private readonly _left: CompareRevision,
+        private readonly _right: CompareRevision,
+        private _threeDot: boolean,
+    ) {
+        _panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        _panel.webview.onDidReceiveMessage(
+            (message: CompareWebviewMessage) => this.handleMessage(message),
+            null,
+            this._disposables,
+        );
+    }
+
+    // Lists the files changed from left to right; in a three-dot comparison only those changed on right
+    // since it diverged from left
+    public static show(
+        extensionUri: vscode.Uri,
+        repository: Repository,
+        left: CompareRevision,
+        right: CompareRevision,
+        threeDot: boolean,
+    ) {
+        ComparePanel.currentPanel?._panel.dispose();
+        const panel = vscode.window.createWebviewPanel(
+            'gitLeanCompare',
+            `${left.label} ↔ ${right.label}`,
+            vscode.ViewColumn.One,
+            { enableScripts: true, localResourceRoots: [extensionUri], retainContextWhenHidden: true },
+        );
+        panel.webview.html = getCompareHtml(panel.webview, extensionUri);
+        ComparePanel.currentPanel = new ComparePanel(panel, repository, left, right, threeDot);
+    }
+
+    private handleMessage(message: CompareWebviewMessage) {
+        switch (message.command) {
+            case 'ready':
+                this.postComparison();
+                break;
+            case 'setThreeDot':
+                this._threeDot = message.threeDot;
+                this.postComparison();
+                break;
+            case 'openDiff':
+                this.openDiff(message.file);
+                break;
+        }
+    }
+
+    private async postComparison() {
+        const threeDot = this._threeDot;
+        let comparison;
+        try {
+            comparison = await getComparison(this._repository.root, this._left.ref, this._right.ref, threeDot);
+        } catch (error) {
+            showGitError('Failed to compare', error);
+            return;
+        }
+        this._baseHash = comparison.base;
+        this._rightHash = comparison.right;
+        const message: CompareHostMessage = {
+            command: 'setComparison',
+            leftLabel: this._left.label,
+            rightLabel: this._right.label,
+            threeDot,
+            base: comparison.base,
+            files: comparison.files,
+        };
+        this._panel.webview.postMessage(message);
+    }
+
+    private openDiff(file: ComparedFile) {
+        if (!this._baseHash || !this._rightHash) {
+            return;
+        }
+        const root = this._repository.root;
+        const leftLabel = this._threeDot ? this._baseHash.substring(0, 7) : this._left.label;
+        vscode.commands.executeCommand(
+            'vscode.diff',
+            toRevisionUri(root, file.oldPath ?? file.path, this._baseHash),
+            toRevisionUri(root, file.path, this._rightHash),
+            `${path.basename(file.path)} (${leftLabel} ↔ ${this._right.label})`,
+        );
+    }
+
+    private dispose() {
+        if (ComparePanel.currentPanel === this) {
+            ComparePanel.currentPanel = undefined;
+        }
+        this._disposables.forEach((d) => d.dispose());
+    }
+}
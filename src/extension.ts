@@ -1,32 +1,147 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
+import { CommitDetailsHost, CommitDetailsPanel } from './commitDetailsPanel';
+import { ComparePanel } from './comparePanel';
 import { GitGraphViewProvider } from './gitGraphView';
+import { BlameController } from './blame';
 import { BranchTreeProvider, BranchTreeItem } from './branchTreeProvider';
+import {
+    checkoutBranch,
+    checkoutRemoteBranch,
+    deleteBranch,
+    deleteRemoteBranch,
+    renameBranch,
+    validateBranchName,
+} from './branches';
+import { getOutputChannel, runGit, showGitError } from './gitRunner';
+import { RebaseEditorPanel } from './rebaseEditor';
+import { fetch, pull, push, setUpstream, unsetUpstream } from './remotes';
+import { RepositoryManager } from './repositoryManager';
+import { REVISION_SCHEME, RevisionContentProvider } from './revisionContentProvider';
+import { StashAction } from './shared/types';
+import { runStashAction, stashChanges } from './stashes';
+import { deleteRemoteTag, deleteTag, pushTag } from './tags';
 
 export function activate(context: vscode.ExtensionContext) {
-    const provider = new GitGraphViewProvider(context.extensionUri);
-    const branchTreeProvider = new BranchTreeProvider();
+    const repositories = new RepositoryManager(context.workspaceState);
+    context.subscriptions.push(repositories);
+
+    // Commit details reveal their commit in the sidebar graph, whichever graph opened them
+    const commitDetails: CommitDetailsHost = {
+        extensionUri: context.extensionUri,
+        globalState: context.globalState,
+        revealInGraph: (repository, commitHash) => provider.revealCommit(repository, commitHash),
+    };
+    const provider = new GitGraphViewProvider(context.extensionUri, repositories, commitDetails);
+    const branchTreeProvider = new BranchTreeProvider(repositories);
 
     context.subscriptions.push(vscode.window.registerWebviewViewProvider(GitGraphViewProvider.viewType, provider));
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, new RevisionContentProvider()),
+    );
 
     const branchTreeView = vscode.window.createTreeView('gitLeanBranchView', {
         treeDataProvider: branchTreeProvider,
+        canSelectMany: true,
     });
 
     branchTreeView.onDidChangeSelection((e) => {
-        const selected = e.selection[0] as BranchTreeItem | undefined;
-        if (selected && (selected.contextValue === 'local-branch' || selected.contextValue === 'remote-branch')) {
-            provider.filterByBranch(selected.branchName || null);
-        } else {
-            provider.filterByBranch(null);
-        }
+        const refs = e.selection
+            .filter((item: BranchTreeItem) =>
+                ['local-branch', 'local-branch-head', 'remote-branch', 'tag'].includes(item.contextValue),
+            )
+            .map((item) => item.branchName!);
+        provider.filterByBranches(refs);
     });
 
+    const setShowOnlySelected = (showOnlySelected: boolean) => {
+        vscode.commands.executeCommand('setContext', 'gitLean.showOnlySelected', showOnlySelected);
+        provider.setShowOnlySelected(showOnlySelected);
+    };
+    vscode.commands.executeCommand('setContext', 'gitLean.showOnlySelected', true);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.showOnlySelectedBranches', () => setShowOnlySelected(true)),
+        vscode.commands.registerCommand('git-lean.showAllBranches', () => setShowOnlySelected(false)),
+    );
+
     context.subscriptions.push(branchTreeView);
 
+    branchTreeProvider.setBranchSort('name');
+    branchTreeProvider.setFilter('');
+    const setBranchFilter = (filter: string) => {
+        branchTreeProvider.setFilter(filter);
+        branchTreeView.message = filter.trim() ? `Showing branches matching '${filter.trim()}'` : undefined;
+    };
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.filterBranches', async () => {
+            const filter = await vscode.window.showInputBox({
+                prompt: 'Show only the branches whose name contains',
+                placeHolder: 'e.g. feature/ or a ticket number; empty shows every branch',
+                value: branchTreeProvider.filter,
+            });
+            if (filter !== undefined) {
+                setBranchFilter(filter);
+            }
+        }),
+        vscode.commands.registerCommand('git-lean.clearBranchFilter', () => setBranchFilter('')),
+        vscode.commands.registerCommand('git-lean.sortBranchesByName', () => branchTreeProvider.setBranchSort('name')),
+        vscode.commands.registerCommand('git-lean.sortBranchesByDate', () => branchTreeProvider.setBranchSort('date')),
+    );
+
+    branchTreeProvider.setTagSort('version');
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.sortTagsByVersion', () => branchTreeProvider.setTagSort('version')),
+        vscode.commands.registerCommand('git-lean.sortTagsByDate', () => branchTreeProvider.setTagSort('date')),
+    );
+
+    const updateBranchViewDescription = () => {
+        branchTreeView.description = repositories.repositories.length > 1 ? repositories.current?.name : undefined;
+    };
+    repositories.onDidChangeCurrent(updateBranchViewDescription);
+    repositories.onDidChangeRepositories(updateBranchViewDescription);
+
+    context.subscriptions.push(vscode.commands.registerCommand('git-lean.selectRepository', () => repositories.pick()));
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.showCommandLog', () => getOutputChannel().show()),
+        getOutputChannel(),
+    );
+
+    repositories.discover();
+
     context.subscriptions.push(
         vscode.commands.registerCommand('git-lean.showGraph', () => {
-            GitGraphViewProvider.createOrShow(context.extensionUri);
+            GitGraphViewProvider.createOrShow(context.extensionUri, repositories, commitDetails);
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.showFileHistory', (uri?: vscode.Uri) => {
+            const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+            if (target?.scheme === 'file') {
+                GitGraphViewProvider.showFileHistory(context.extensionUri, repositories, commitDetails, target);
+            }
+        }),
+    );
+
+    const blame = new BlameController(repositories);
+    context.subscriptions.push(
+        blame,
+        vscode.commands.registerCommand('git-lean.toggleBlame', () => blame.toggle(vscode.window.activeTextEditor)),
+    );
+
+    // Linked from the blame hovers, which name the repository by its root
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.showCommitDetails', (root: string, commitHash: string) => {
+            const repository = repositories.repositories.find((r) => r.root === root);
+            if (repository && commitHash) {
+                CommitDetailsPanel.show(commitDetails, repository, commitHash);
+            }
+        }),
+        vscode.commands.registerCommand('git-lean.revealCommit', (root: string, commitHash: string) => {
+            const repository = repositories.repositories.find((r) => r.root === root);
+            if (repository && commitHash) {
+                provider.revealCommit(repository, commitHash);
+            }
         }),
     );
 
@@ -60,53 +175,62 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    // Remote branches are checked out on a local branch tracking them
     context.subscriptions.push(
-        vscode.commands.registerCommand('git-lean.checkoutBranch', async (item: any) => {
-            const branchName = typeof item === 'string' ? item : item.branchName;
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+        vscode.commands.registerCommand('git-lean.checkoutBranch', (branchTreeItem: BranchTreeItem) => {
+            const cwd = repositories.current?.root;
+            if (!cwd || !branchTreeItem.branchName) {
                 return;
             }
-
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.execFile('git', ['checkout', branchName], { cwd }, (error, _stdout, _stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to checkout branch: ${error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Switched to branch '${branchName}'`);
-                branchTreeProvider.refresh();
-            });
+            const remote = branchTreeItem.remote;
+            if (remote) {
+                checkoutRemoteBranch(cwd, remote, branchTreeItem.branchName.substring(remote.length + 1));
+            } else {
+                checkoutBranch(cwd, branchTreeItem.branchName);
+            }
+        }),
+        vscode.commands.registerCommand('git-lean.deleteRemoteBranch', (branchTreeItem: BranchTreeItem) => {
+            const cwd = repositories.current?.root;
+            const remote = branchTreeItem.remote;
+            if (cwd && remote && branchTreeItem.branchName) {
+                deleteRemoteBranch(cwd, remote, branchTreeItem.branchName.substring(remote.length + 1));
+            }
         }),
     );
 
-    context.subscriptions.push(
-        vscode.commands.registerCommand('git-lean.deleteBranch', async (branchTreeItem: any) => {
-            const branchName = branchTreeItem.branchName;
-            const confirm = await vscode.window.showWarningMessage(
-                `Are you sure you want to delete branch '${branchName}'?`,
-                'Yes',
-                'No',
-            );
-
-            if (confirm !== 'Yes') {
-                return;
-            }
+    const localBranchCommands: [string, (cwd: string, name: string) => Promise<void>][] = [
+        ['git-lean.renameBranch', renameBranch],
+        ['git-lean.deleteBranch', deleteBranch],
+    ];
+    for (const [command, run] of localBranchCommands) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(command, (branchTreeItem: BranchTreeItem) => {
+                const cwd = repositories.current?.root;
+                if (cwd && branchTreeItem.branchName) {
+                    run(cwd, branchTreeItem.branchName);
+                }
+            }),
+        );
+    }
 
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+    // The current branch goes on the left, so the comparison shows what the other branch would bring
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.compareWithCurrentBranch', async (branchTreeItem: BranchTreeItem) => {
+            const repository = repositories.current;
+            if (!repository || !branchTreeItem.branchName) {
                 return;
             }
-
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.execFile('git', ['branch', '-d', branchName], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to delete branch: ${error.message}\n${stderr}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Deleted branch '${branchName}'`);
-                branchTreeProvider.refresh();
-            });
+            const current = await runGit(repository.root, ['rev-parse', '--abbrev-ref', 'HEAD']).then(
+                ({ stdout }) => stdout.trim(),
+                () => 'HEAD',
+            );
+            ComparePanel.show(
+                context.extensionUri,
+                repository,
+                { ref: 'HEAD', label: current },
+                { ref: branchTreeItem.branchName, label: branchTreeItem.branchName },
+                true,
+            );
         }),
     );
 
@@ -120,21 +244,33 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('git-lean.rebaseBranch', async (branchTreeItem: any) => {
             const targetBranch = branchTreeItem.branchName;
 
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+            const cwd = repositories.current?.root;
+            if (!cwd) {
                 return;
             }
-            const cwd = workspaceFolders[0].uri.fsPath;
 
-            cp.execFile('git', ['rebase', targetBranch], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    cp.execFile('git', ['rebase', '--abort'], { cwd }, () => {});
-                    vscode.window.showErrorMessage(`Rebase failed: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Rebased onto '${targetBranch}' successfully`);
-                branchTreeProvider.refresh();
-            });
+            try {
+                await runGit(cwd, ['rebase', targetBranch]);
+            } catch (error) {
+                showGitError('Rebase failed', error);
+                return;
+            }
+            vscode.window.showInformationMessage(`Rebased onto '${targetBranch}' successfully`);
+            branchTreeProvider.refresh();
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.interactiveRebaseBranch', async (branchTreeItem: BranchTreeItem) => {
+            const repository = repositories.current;
+            if (repository && branchTreeItem.branchName) {
+                RebaseEditorPanel.show(
+                    context.extensionUri,
+                    repository,
+                    branchTreeItem.branchName,
+                    branchTreeItem.branchName,
+                );
+            }
         }),
     );
 
@@ -142,23 +278,102 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('git-lean.mergeBranch', async (branchTreeItem: any) => {
             const sourceBranch = branchTreeItem.branchName;
 
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+            const cwd = repositories.current?.root;
+            if (!cwd) {
                 return;
             }
-            const cwd = workspaceFolders[0].uri.fsPath;
 
-            cp.execFile('git', ['merge', sourceBranch], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Merge failed: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Merged '${sourceBranch}' successfully`);
-                branchTreeProvider.refresh();
-            });
+            try {
+                await runGit(cwd, ['merge', sourceBranch]);
+            } catch (error) {
+                showGitError('Merge failed', error);
+                return;
+            }
+            vscode.window.showInformationMessage(`Merged '${sourceBranch}' successfully`);
+            branchTreeProvider.refresh();
         }),
     );
 
+    // From the view title these act on all remotes or the current branch, from an item on that item
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.fetch', (branchTreeItem?: BranchTreeItem) => {
+            const cwd = repositories.current?.root;
+            if (cwd) {
+                fetch(cwd, branchTreeItem?.branchName);
+            }
+        }),
+        vscode.commands.registerCommand('git-lean.pull', () => {
+            const cwd = repositories.current?.root;
+            if (cwd) {
+                pull(cwd);
+            }
+        }),
+        vscode.commands.registerCommand('git-lean.push', (branchTreeItem?: BranchTreeItem) => {
+            const cwd = repositories.current?.root;
+            if (cwd) {
+                push(cwd, branchTreeItem?.branchName, false);
+            }
+        }),
+        vscode.commands.registerCommand('git-lean.forcePush', (branchTreeItem?: BranchTreeItem) => {
+            const cwd = repositories.current?.root;
+            if (cwd) {
+                push(cwd, branchTreeItem?.branchName, true);
+            }
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.setUpstream', (branchTreeItem: BranchTreeItem) => {
+            const cwd = repositories.current?.root;
+            if (cwd && branchTreeItem.branchName) {
+                setUpstream(cwd, branchTreeItem.branchName);
+            }
+        }),
+        vscode.commands.registerCommand('git-lean.unsetUpstream', (branchTreeItem: BranchTreeItem) => {
+            const cwd = repositories.current?.root;
+            if (cwd && branchTreeItem.branchName) {
+                unsetUpstream(cwd, branchTreeItem.branchName);
+            }
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.stashChanges', () => {
+            const cwd = repositories.current?.root;
+            if (cwd) {
+                stashChanges(cwd);
+            }
+        }),
+    );
+
+    const stashActions: StashAction[] = ['applyStash', 'popStash', 'dropStash', 'renameStash', 'createBranchFromStash'];
+    for (const action of stashActions) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(`git-lean.${action}`, (branchTreeItem: BranchTreeItem) => {
+                const cwd = repositories.current?.root;
+                if (cwd && branchTreeItem.branchName) {
+                    runStashAction(cwd, action, branchTreeItem.branchName);
+                }
+            }),
+        );
+    }
+
+    const tagCommands: [string, (cwd: string, name: string) => Promise<void>][] = [
+        ['git-lean.deleteTag', deleteTag],
+        ['git-lean.pushTag', pushTag],
+        ['git-lean.deleteRemoteTag', deleteRemoteTag],
+    ];
+    for (const [command, run] of tagCommands) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(command, (branchTreeItem: BranchTreeItem) => {
+                const cwd = repositories.current?.root;
+                if (cwd && branchTreeItem.branchName) {
+                    run(cwd, branchTreeItem.branchName);
+                }
+            }),
+        );
+    }
+
     context.subscriptions.push(
         vscode.commands.registerCommand('git-lean.createBranch', async (branchTreeItem: any) => {
             const sourceBranch = branchTreeItem.branchName;
@@ -166,35 +381,25 @@ export function activate(context: vscode.ExtensionContext) {
             const newBranchName = await vscode.window.showInputBox({
                 prompt: `Create new branch from '${sourceBranch}'`,
                 placeHolder: 'New branch name',
-                validateInput: (value) => {
-                    if (!value || !value.trim()) {
-                        return 'Branch name cannot be empty';
-                    }
-                    if (/[\s~^:?*\[\\]|\.\./.test(value)) {
-                        return 'Invalid branch name';
-                    }
-                    return null;
-                },
+                validateInput: validateBranchName,
             });
 
             if (!newBranchName) {
                 return;
             }
 
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+            const cwd = repositories.current?.root;
+            if (!cwd) {
                 return;
             }
-
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.execFile('git', ['checkout', '-b', newBranchName, sourceBranch], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to create branch: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Created and switched to branch '${newBranchName}'`);
-                branchTreeProvider.refresh();
-            });
+            try {
+                await runGit(cwd, ['checkout', '-b', newBranchName, sourceBranch]);
+            } catch (error) {
+                showGitError('Failed to create branch', error);
+                return;
+            }
+            vscode.window.showInformationMessage(`Created and switched to branch '${newBranchName}'`);
+            branchTreeProvider.refresh();
         }),
     );
 }
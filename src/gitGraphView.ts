@@ -1,37 +1,186 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
-import { GitOperations } from './gitOperations';
-import { getHtmlForWebview, getCommitDetailsHtml } from './webviewContent';
+import * as path from 'path';
+import { checkoutCommit } from './branches';
+import { CommitDetailsHost, CommitDetailsPanel } from './commitDetailsPanel';
+import { ComparePanel } from './comparePanel';
+import { GitLogPage, GitOperations } from './gitOperations';
+import { runGit } from './gitRunner';
+import { getOperationState, runOperationAction } from './operationState';
+import { RebaseEditorPanel } from './rebaseEditor';
+import { getHeadTracking } from './remotes';
+import { Repository, RepositoryManager } from './repositoryManager';
+import { GitLogFilters, GraphHostMessage, GraphWebviewMessage } from './shared/types';
+import { getStashes, runStashAction, stashChanges } from './stashes';
+import { createTag } from './tags';
+import { getHtmlForWebview } from './webviewContent';
+
+// Number of commits sent to the graph per page; further pages are requested as the user scrolls
+const PAGE_SIZE = 500;
+// A single checkout or commit touches many files under .git; coalesce their change events
+const REFRESH_DELAY_MS = 300;
+
+interface FileHistory {
+    // The repository holding the file, whichever one is selected elsewhere
+    repository: Repository;
+    // Relative to the repository root
+    path: string;
+    // Follow renames; only possible for a single file
+    follow: boolean;
+}
 
 export class GitGraphViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'gitLeanGraphView';
     private static currentPanel: vscode.WebviewPanel | undefined;
+    private static historyPanel: { panel: vscode.WebviewPanel; provider: GitGraphViewProvider } | undefined;
     private _view?: vscode.WebviewView;
-    private _watcher?: vscode.FileSystemWatcher;
-    private _filterBranch: string | null = null;
+    private _panel?: vscode.WebviewPanel;
+    private readonly _disposables: vscode.Disposable[] = [];
+    // Branches picked in the Branches view per repository root, and whether the graph is limited
+    // to their history
+    private readonly _selectedRefs = new Map<string, string[]>();
+    private _showOnlySelected = true;
+    private _history: FileHistory | null = null;
+    private _refreshTimer?: NodeJS.Timeout;
+    // Last history sent to each webview, so refreshes only post when something changed
+    private readonly _sentPages = new WeakMap<vscode.Webview, GitLogPage>();
+    // The refs and the query the history sent to each webview was read for; see getHistoryFingerprint
+    private readonly _sentFingerprints = new WeakMap<vscode.Webview, string>();
+    // Counts history reloads per webview, so a slow reload, or a page requested before the latest reload,
+    // does not overwrite what a later one sent
+    private readonly _historyLoads = new WeakMap<vscode.Webview, number>();
+    // Webviews waiting for a page they asked for
+    private readonly _pagesLoading = new WeakSet<vscode.Webview>();
+    private readonly _sentOperations = new WeakMap<vscode.Webview, string>();
+    private readonly _sentWorkingTrees = new WeakMap<vscode.Webview, string>();
+    private readonly _sentStashes = new WeakMap<vscode.Webview, string>();
+    private readonly _sentTrackings = new WeakMap<vscode.Webview, string>();
+    private _workingTreeTimer?: NodeJS.Timeout;
+    // Commit to select once the graph of its repository has been sent
+    private _pendingReveal: { root: string; hash: string } | undefined;
     private readonly _gitOps: GitOperations;
 
-    constructor(private readonly _extensionUri: vscode.Uri) {
-        this._gitOps = new GitOperations(() => this.refresh());
-        this.setupGitWatcher();
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _repositories: RepositoryManager,
+        private readonly _commitDetails: CommitDetailsHost,
+    ) {
+        this._gitOps = new GitOperations(
+            () => this.repository?.root ?? null,
+            () => this.refresh(),
+        );
+        this._disposables.push(
+            _repositories.onDidChangeState((repository) => {
+                if (repository.root === this.repository?.root) {
+                    this.scheduleRefresh();
+                }
+            }),
+            _repositories.onDidChangeWorkingTree((repository) => {
+                if (repository.root === this.repository?.root) {
+                    this.scheduleWorkingTreeRefresh();
+                }
+            }),
+            _repositories.onDidChangeRepositories(() => this.updateDescription()),
+            _repositories.onDidChangeCurrent(() => {
+                if (!this._history) {
+                    this.updateDescription();
+                    this.postSelectedRefs();
+                    this.refresh(true);
+                }
+            }),
+        );
     }
 
-    public filterByBranch(branch: string | null) {
-        this._filterBranch = branch;
-        this.refresh();
+    private get repository(): Repository | undefined {
+        return this._history?.repository ?? this._repositories.current;
     }
 
-    public static createOrShow(extensionUri: vscode.Uri) {
-        const column = vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : undefined;
+    private get selectedRefs(): string[] {
+        return (this.repository && this._selectedRefs.get(this.repository.root)) ?? [];
+    }
+
+    public filterByBranches(refs: string[]) {
+        if (this.repository) {
+            this._selectedRefs.set(this.repository.root, refs);
+        }
+        this.postSelectedRefs();
+        this.refresh(this._showOnlySelected);
+    }
 
+    public setShowOnlySelected(showOnlySelected: boolean) {
+        this._showOnlySelected = showOnlySelected;
+        this.refresh(true);
+    }
+
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        repositories: RepositoryManager,
+        commitDetails: CommitDetailsHost,
+    ) {
         if (GitGraphViewProvider.currentPanel) {
-            GitGraphViewProvider.currentPanel.reveal(column);
+            GitGraphViewProvider.currentPanel.reveal(vscode.window.activeTextEditor?.viewColumn);
+            return;
+        }
+
+        const { panel } = GitGraphViewProvider.createPanel(extensionUri, repositories, commitDetails, 'Tree');
+        GitGraphViewProvider.currentPanel = panel;
+        panel.onDidDispose(() => {
+            GitGraphViewProvider.currentPanel = undefined;
+        });
+    }
+
+    // Opens the graph restricted to the commits touching a file or folder, reusing the history panel
+    public static async showFileHistory(
+        extensionUri: vscode.Uri,
+        repositories: RepositoryManager,
+        commitDetails: CommitDetailsHost,
+        uri: vscode.Uri,
+    ) {
+        const repository = repositories.getRepositoryForPath(uri.fsPath);
+        if (!repository) {
+            vscode.window.showErrorMessage(`'${uri.fsPath}' is not inside a git repository`);
             return;
         }
 
+        // An empty path would mean the repository root, whose history is the whole graph
+        const relativePath = path.relative(repository.root, uri.fsPath).split(path.sep).join('/');
+        let stat: vscode.FileStat;
+        try {
+            stat = await vscode.workspace.fs.stat(uri);
+        } catch {
+            vscode.window.showErrorMessage(`'${uri.fsPath}' does not exist`);
+            return;
+        }
+        const isFile = (stat.type & vscode.FileType.File) !== 0;
+        const history = { repository, path: relativePath || '.', follow: isFile };
+        const title = `History: ${path.basename(uri.fsPath)}`;
+
+        const existing = GitGraphViewProvider.historyPanel;
+        if (existing) {
+            existing.panel.title = title;
+            existing.panel.reveal(vscode.window.activeTextEditor?.viewColumn);
+            existing.provider.setHistory(history);
+            return;
+        }
+
+        const created = GitGraphViewProvider.createPanel(extensionUri, repositories, commitDetails, title);
+        created.provider._history = history;
+        GitGraphViewProvider.historyPanel = created;
+        created.panel.onDidDispose(() => {
+            GitGraphViewProvider.historyPanel = undefined;
+        });
+    }
+
+    private static createPanel(
+        extensionUri: vscode.Uri,
+        repositories: RepositoryManager,
+        commitDetails: CommitDetailsHost,
+        title: string,
+    ) {
+        const column = vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : undefined;
+
         const panel = vscode.window.createWebviewPanel(
             GitGraphViewProvider.viewType,
-            'Tree',
+            title,
             column || vscode.ViewColumn.One,
             {
                 enableScripts: true,
@@ -39,18 +188,22 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             },
         );
 
-        GitGraphViewProvider.currentPanel = panel;
+        const provider = new GitGraphViewProvider(extensionUri, repositories, commitDetails);
+        provider._panel = panel;
+        panel.webview.html = getHtmlForWebview(panel.webview, extensionUri);
 
-        const provider = new GitGraphViewProvider(extensionUri);
-        provider.updateWebview(panel.webview);
+        panel.onDidDispose(() => provider.dispose());
+        panel.webview.onDidReceiveMessage((message) => provider.handleMessage(message, panel.webview));
 
-        panel.onDidDispose(() => {
-            GitGraphViewProvider.currentPanel = undefined;
-        });
+        return { panel, provider };
+    }
 
-        panel.webview.onDidReceiveMessage((message) =>
-            provider.handleMessage(message, () => provider.updateWebview(panel.webview)),
-        );
+    private setHistory(history: FileHistory) {
+        this._history = history;
+        if (this._panel) {
+            this.postMessage(this._panel.webview, { command: 'setHistoryPath', path: history.path });
+        }
+        this.refresh(true);
     }
 
     public resolveWebviewView(
@@ -65,17 +218,45 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             localResourceRoots: [this._extensionUri],
         };
 
-        webviewView.webview.onDidReceiveMessage((message) =>
-            this.handleMessage(message, () => this.updateWebview(webviewView.webview)),
-        );
+        webviewView.webview.onDidReceiveMessage((message) => this.handleMessage(message, webviewView.webview));
+        webviewView.onDidDispose(() => {
+            this._view = undefined;
+        });
 
-        this.updateWebview(webviewView.webview);
+        webviewView.webview.html = getHtmlForWebview(webviewView.webview, this._extensionUri);
+        this.updateDescription();
     }
 
-    private handleMessage(message: any, refresh: () => void) {
+    // Names the repository shown when the workspace has more than one
+    private updateDescription() {
+        if (this._view) {
+            this._view.description = this._repositories.repositories.length > 1 ? this.repository?.name : undefined;
+        }
+    }
+
+    private handleMessage(message: GraphWebviewMessage, webview: vscode.Webview) {
         switch (message.command) {
+            case 'ready':
+                this.postMessage(webview, { command: 'setHistoryPath', path: this._history?.path ?? null });
+                this.postMessage(webview, { command: 'setSelectedRefs', refs: this.selectedRefs });
+                this._sentOperations.delete(webview);
+                this._sentWorkingTrees.delete(webview);
+                this._sentStashes.delete(webview);
+                this._sentTrackings.delete(webview);
+                this.postOperation(webview);
+                this.postWorkingTree(webview);
+                this.postStashes(webview);
+                this.postHeadTracking(webview);
+                this.postCommits(webview, true);
+                break;
             case 'refresh':
-                refresh();
+                this.postCommits(webview, false);
+                break;
+            case 'loadMore':
+                this.loadMore(webview, message.skip, message.untilHash);
+                break;
+            case 'search':
+                this.search(webview, message.requestId, message.filters);
                 break;
             case 'editCommitMessage':
                 this._gitOps.editCommitMessage(message.commitHash, message.newMessage);
@@ -92,44 +273,111 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             case 'resetToCommit':
                 this._gitOps.resetToCommit(message.commitHash);
                 break;
+            case 'createTag':
+                if (this.repository) {
+                    createTag(this.repository.root, message.commitHash);
+                }
+                break;
+            case 'checkoutCommit':
+                if (this.repository) {
+                    checkoutCommit(this.repository.root, message.commitHash);
+                }
+                break;
             case 'squashCommits':
                 this._gitOps.squashCommits(message.hashes, message.parentHash);
                 break;
             case 'cherryPickRange':
                 this._gitOps.cherryPickRange(message.hashes);
                 break;
+            case 'interactiveRebase':
+                this.interactiveRebase(message.hashes, message.parentHash);
+                break;
+            case 'compareCommits':
+                if (this.repository) {
+                    ComparePanel.show(
+                        this._extensionUri,
+                        this.repository,
+                        { ref: message.left, label: message.left.substring(0, 7) },
+                        { ref: message.right, label: message.right.substring(0, 7) },
+                        false,
+                    );
+                }
+                break;
             case 'showCommitDetails':
-                this.showCommitDetails(message.commitHash);
+                this.showCommitDetails(message.commitHash, message.path);
+                break;
+            case 'operationAction':
+                if (this.repository) {
+                    runOperationAction(this.repository, message.action);
+                }
+                break;
+            case 'stageFiles':
+                this._gitOps.stageFiles(message.paths);
+                break;
+            case 'unstageFiles':
+                this._gitOps.unstageFiles(message.paths);
+                break;
+            case 'discardChanges':
+                this._gitOps.discardChanges(message.paths);
+                break;
+            case 'commitChanges':
+                this._gitOps.commitChanges(message.message, message.amend);
+                break;
+            case 'stashChanges':
+                if (this.repository) {
+                    stashChanges(this.repository.root);
+                }
+                break;
+            case 'applyStash':
+            case 'popStash':
+            case 'dropStash':
+            case 'renameStash':
+            case 'createBranchFromStash':
+                if (this.repository) {
+                    runStashAction(this.repository.root, message.command, message.ref);
+                }
+                break;
+            case 'openFile':
+                if (this.repository) {
+                    vscode.window.showTextDocument(vscode.Uri.file(path.join(this.repository.root, message.path)));
+                }
                 break;
         }
     }
 
-    private setupGitWatcher() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            return;
-        }
-
-        this._watcher = vscode.workspace.createFileSystemWatcher(
-            new vscode.RelativePattern(workspaceFolders[0], '.git/**'),
-        );
+    private scheduleRefresh() {
+        clearTimeout(this._refreshTimer);
+        this._refreshTimer = setTimeout(() => this.refresh(), REFRESH_DELAY_MS);
+    }
 
-        this._watcher.onDidChange(() => this.refresh());
-        this._watcher.onDidCreate(() => this.refresh());
-        this._watcher.onDidDelete(() => this.refresh());
+    // Edits to files only change the working tree row, so the history is not reloaded for them
+    private scheduleWorkingTreeRefresh() {
+        clearTimeout(this._workingTreeTimer);
+        this._workingTreeTimer = setTimeout(() => {
+            for (const webview of [this._view?.webview, this._panel?.webview]) {
+                if (webview) {
+                    this.postWorkingTree(webview);
+                }
+            }
+        }, REFRESH_DELAY_MS);
     }
 
-    private refresh() {
-        if (this._view) {
-            this.updateWebview(this._view.webview);
-        }
-        if (GitGraphViewProvider.currentPanel) {
-            this.updateWebview(GitGraphViewProvider.currentPanel.webview);
+    private refresh(reset = false) {
+        for (const webview of [this._view?.webview, this._panel?.webview]) {
+            if (webview) {
+                this.postOperation(webview);
+                this.postWorkingTree(webview);
+                this.postStashes(webview);
+                this.postHeadTracking(webview);
+                this.postCommits(webview, reset);
+            }
         }
     }
 
     public dispose() {
-        this._watcher?.dispose();
+        clearTimeout(this._refreshTimer);
+        clearTimeout(this._workingTreeTimer);
+        this._disposables.forEach((d) => d.dispose());
     }
 
     // Delegated public methods so extension.ts commands can still call them on the provider
@@ -153,47 +401,229 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
         return this._gitOps.resetToCommit(commitHash);
     }
 
-    public async showCommitDetails(commitHash: string) {
-        const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!cwd) {
+    // Opens the rebase editor on the commits from the oldest selected one up to HEAD
+    private async interactiveRebase(hashes: string[], parentHash: string | undefined) {
+        const repository = this.repository;
+        if (!repository) {
             return;
         }
+        try {
+            await runGit(repository.root, ['merge-base', '--is-ancestor', hashes[0], 'HEAD']);
+        } catch {
+            vscode.window.showErrorMessage('Interactive rebase needs commits from the current branch');
+            return;
+        }
+        const upstreamLabel = parentHash ? parentHash.substring(0, 7) : 'the root';
+        RebaseEditorPanel.show(this._extensionUri, repository, parentHash || null, upstreamLabel);
+    }
 
-        const exec = (cmd: string, opts?: cp.ExecOptions) =>
-            new Promise<string>((resolve) => {
-                cp.exec(cmd, { cwd, ...opts }, (_err, stdout) => resolve(stdout ? String(stdout) : ''));
-            });
-
-        const metaLines = (await exec(`git log -1 --format="%H%n%ae%n%an%n%aI%n%cI%n%s" ${commitHash}`)).split('\n');
-        const body = (await exec(`git log -1 --format="%b" ${commitHash}`)).trim();
-        const patch = await exec(`git show ${commitHash}`, { maxBuffer: 10 * 1024 * 1024 });
+    // Scrolls the graph to a commit and selects it, switching to its repository and opening the view
+    // first when needed. A commit outside the selected branches is only revealed once the graph shows
+    // all of them.
+    public async revealCommit(repository: Repository, commitHash: string) {
+        const showAll = this._showOnlySelected && !(await this.isOnSelectedBranches(repository, commitHash));
+        if (showAll) {
+            const choice = await vscode.window.showInformationMessage(
+                `Commit ${commitHash.substring(0, 7)} is not on the branches the graph shows.`,
+                'Show All Branches',
+            );
+            if (!choice) {
+                return;
+            }
+        }
 
-        const [
-            fullHash = commitHash,
-            authorEmail = '',
-            authorName = '',
-            authorDate = '',
-            commitDate = '',
-            subject = '',
-        ] = metaLines;
+        this._pendingReveal = { root: repository.root, hash: commitHash };
+        // The graph reloads for each of these and sends the reveal after the commits
+        if (showAll) {
+            await vscode.commands.executeCommand('git-lean.showAllBranches');
+        }
+        if (this.repository?.root !== repository.root) {
+            this._repositories.select(repository);
+        } else if (!showAll && this._view?.visible) {
+            this.postPendingReveal(this._view.webview, repository.root);
+        }
+        // A hidden view reloads when shown and is sent the commits, then the reveal
+        if (this._view) {
+            this._view.show(true);
+        } else {
+            vscode.commands.executeCommand(`${GitGraphViewProvider.viewType}.focus`);
+        }
+    }
 
-        const panel = vscode.window.createWebviewPanel(
-            'gitLeanCommitDetails',
-            `Commit ${commitHash.substring(0, 7)}`,
-            vscode.ViewColumn.One,
-            { enableScripts: true },
+    // Whether the commit is in the history of the repository's selected branches; with none selected
+    // the graph shows HEAD's history
+    private async isOnSelectedBranches(repository: Repository, commitHash: string): Promise<boolean> {
+        const selected = this._selectedRefs.get(repository.root) ?? [];
+        const revisions = selected.length > 0 ? selected : ['HEAD'];
+        return runGit(repository.root, ['rev-list', '-n', '1', commitHash, '--not', ...revisions]).then(
+            ({ stdout }) => stdout.trim() === '',
+            // Unknown, e.g. a selected branch was deleted since; the graph is left to look for the commit
+            () => true,
         );
+    }
 
-        panel.webview.options = { enableScripts: true, localResourceRoots: [this._extensionUri] };
-        panel.webview.html = getCommitDetailsHtml(
-            panel.webview,
-            { fullHash, authorEmail, authorName, authorDate, commitDate, subject, body, patch },
-            this._extensionUri,
-        );
+    private postPendingReveal(webview: vscode.Webview, root: string | undefined) {
+        if (this._pendingReveal && this._pendingReveal.root === root) {
+            this.postMessage(webview, { command: 'revealCommit', hash: this._pendingReveal.hash });
+            this._pendingReveal = undefined;
+        }
+    }
+
+    public showCommitDetails(commitHash: string, focusPath?: string) {
+        if (this.repository) {
+            CommitDetailsPanel.show(this._commitDetails, this.repository, commitHash, focusPath);
+        }
+    }
+
+    // The union of the selected branches, or every branch when the graph only highlights them
+    private getLogRevisions(): string[] {
+        if (!this._showOnlySelected) {
+            return ['--branches', '--remotes', '--tags', 'HEAD'];
+        }
+        return this.selectedRefs;
+    }
+
+    private postSelectedRefs() {
+        if (this._view) {
+            this.postMessage(this._view.webview, { command: 'setSelectedRefs', refs: this.selectedRefs });
+        }
     }
 
-    private async updateWebview(webview: vscode.Webview) {
-        const commits = await this._gitOps.getGitLog(this._filterBranch);
-        webview.html = getHtmlForWebview(webview, commits, this._extensionUri);
+    // In a file history panel every query is limited to the file
+    private getLogFilters(): GitLogFilters {
+        return this._history ? { path: this._history.path, follow: this._history.follow } : {};
+    }
+
+    private postMessage(webview: vscode.Webview, message: GraphHostMessage) {
+        webview.postMessage(message);
+    }
+
+    // Identifies the history the graph shows: HEAD and every ref, which a commit, checkout, fetch or rebase
+    // moves, and the revisions and filters the log is read with
+    private async getHistoryFingerprint(root: string | undefined): Promise<string> {
+        const refs = root
+            ? await runGit(root, ['show-ref', '--head']).then(
+                  ({ stdout }) => stdout,
+                  // No refs at all before the first commit
+                  () => '',
+              )
+            : '';
+        return JSON.stringify([root, this.getLogRevisions(), this.getLogFilters(), refs]);
+    }
+
+    // Re-reads as much history as the webview has loaded, unless no ref moved since it was sent; most
+    // events under .git, such as index updates, leave the history as it was. A reset starts over from the
+    // first page, e.g. after a filter change.
+    private async postCommits(webview: vscode.Webview, reset: boolean) {
+        const load = (this._historyLoads.get(webview) ?? 0) + 1;
+        this._historyLoads.set(webview, load);
+        // The page being loaded is dropped, and the webview waits for it until it gets the history again
+        const interruptedPage = this._pagesLoading.delete(webview);
+        const root = this.repository?.root;
+        const fingerprint = await this.getHistoryFingerprint(root);
+        if (load !== this._historyLoads.get(webview)) {
+            return;
+        }
+        if (!reset && !interruptedPage && this._sentFingerprints.get(webview) === fingerprint) {
+            this.postPendingReveal(webview, root);
+            return;
+        }
+
+        const count = Math.max(PAGE_SIZE, (reset ? undefined : this._sentPages.get(webview))?.commits.length ?? 0);
+        const page = await this._gitOps.getGitLog(this.getLogRevisions(), 0, count, this.getLogFilters());
+        if (load !== this._historyLoads.get(webview)) {
+            return;
+        }
+        this._sentPages.set(webview, page);
+        this._sentFingerprints.set(webview, fingerprint);
+        this.postMessage(webview, { command: 'setCommits', commits: page.commits, hasMore: page.hasMore });
+        this.postPendingReveal(webview, root);
+    }
+
+    // Sends the rebase, merge, cherry-pick or revert in progress, if any, when it changed
+    private async postOperation(webview: vscode.Webview) {
+        const operation = this.repository ? await getOperationState(this.repository) : null;
+        const json = JSON.stringify(operation);
+        if (this._sentOperations.get(webview) === json) {
+            return;
+        }
+        this._sentOperations.set(webview, json);
+        this.postMessage(webview, { command: 'setOperation', operation });
+    }
+
+    // Sends the uncommitted changes when they changed; file histories show none
+    private async postWorkingTree(webview: vscode.Webview) {
+        const workingTree = this._history ? null : await this._gitOps.getWorkingTreeStatus();
+        const json = JSON.stringify(workingTree);
+        if (this._sentWorkingTrees.get(webview) === json) {
+            return;
+        }
+        this._sentWorkingTrees.set(webview, json);
+        this.postMessage(webview, { command: 'setWorkingTree', workingTree });
+    }
+
+    // Sends the stashes drawn on their base commits when they changed; file histories show none
+    private async postStashes(webview: vscode.Webview) {
+        const stashes = this._history || !this.repository ? [] : await getStashes(this.repository.root);
+        const json = JSON.stringify(stashes);
+        if (this._sentStashes.get(webview) === json) {
+            return;
+        }
+        this._sentStashes.set(webview, json);
+        this.postMessage(webview, { command: 'setStashes', stashes });
+    }
+
+    // Sends the ahead/behind counts shown on the HEAD badge when they changed
+    private async postHeadTracking(webview: vscode.Webview) {
+        const tracking = this.repository ? await getHeadTracking(this.repository.root) : null;
+        const json = JSON.stringify(tracking);
+        if (this._sentTrackings.get(webview) === json) {
+            return;
+        }
+        this._sentTrackings.set(webview, json);
+        this.postMessage(webview, { command: 'setHeadTracking', tracking });
+    }
+
+    // Loads the next page, or when untilHash is given, enough pages to include that commit
+    private async loadMore(webview: vscode.Webview, skip: number, untilHash?: string) {
+        const load = this._historyLoads.get(webview);
+        this._pagesLoading.add(webview);
+        let limit = PAGE_SIZE;
+        if (untilHash) {
+            const position = await this._gitOps.getCommitPosition(
+                this.getLogRevisions(),
+                untilHash,
+                this.getLogFilters(),
+            );
+            limit = Math.max(PAGE_SIZE, position - skip + PAGE_SIZE);
+        }
+        const page = await this._gitOps.getGitLog(this.getLogRevisions(), skip, limit, this.getLogFilters());
+        if (load !== this._historyLoads.get(webview)) {
+            return;
+        }
+        this._pagesLoading.delete(webview);
+        const sent = this._sentPages.get(webview);
+        // Requested before a reload that has since sent a different number of commits
+        if ((sent?.commits.length ?? 0) !== skip) {
+            return;
+        }
+        this._sentPages.set(webview, {
+            commits: (sent?.commits ?? []).concat(page.commits),
+            hasMore: page.hasMore,
+        });
+        this.postMessage(webview, { command: 'appendCommits', skip, commits: page.commits, hasMore: page.hasMore });
+    }
+
+    private async search(webview: vscode.Webview, requestId: number, filters: GitLogFilters) {
+        const result = await this._gitOps.findMatchingCommits(this.getLogRevisions(), {
+            ...filters,
+            ...this.getLogFilters(),
+        });
+        this.postMessage(webview, {
+            command: 'searchResults',
+            requestId,
+            hashes: result.hashes,
+            truncated: result.truncated,
+        });
     }
 }
@@ -1,74 +1,204 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
-import * as path from 'path';
-import * as fs from 'fs';
-import * as os from 'os';
-
-export interface GitCommit {
-    hash: string;
-    shortHash: string;
-    message: string;
-    date: string;
-    author: string;
-    parents: string[];
-    refs: string[];
+import { runGit, showGitError } from './gitRunner';
+import { getRebaseEntries, runInteractiveRebase } from './interactiveRebase';
+import { GitCommit, GitLogFilters, RebaseEntry, WorkingTreeChange, WorkingTreeStatus } from './shared/types';
+
+export interface GitLogPage {
+    commits: GitCommit[];
+    hasMore: boolean;
 }
 
-export class GitOperations {
-    constructor(private readonly onRefresh: () => void) {}
+export interface GitSearchResult {
+    hashes: string[];
+    // More commits matched than MAX_SEARCH_RESULTS
+    truncated: boolean;
+}
 
-    private getCwd(): string | null {
-        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+const MAX_SEARCH_RESULTS = 1000;
+
+// Resolves the new name from a numstat path, which shows renames as "old => new" or "dir/{old => new}/file"
+function getNumstatPath(statPath: string): string {
+    if (statPath.includes('{')) {
+        return statPath.replace(/\{[^{}]* => ([^{}]*)\}/, '$1').replace(/\/\//g, '/');
     }
+    const arrow = statPath.indexOf(' => ');
+    return arrow >= 0 ? statPath.substring(arrow + 4) : statPath;
+}
 
-    async getGitLog(filterBranch: string | null): Promise<GitCommit[]> {
-        return new Promise((resolve) => {
-            const cwd = this.getCwd();
-            if (!cwd) {
-                resolve([]);
-                return;
-            }
+export class GitOperations {
+    // The whole of the last followed history read, by repository, revisions and filters
+    private _followedLog: { key: string; commits: GitCommit[] } | undefined;
 
-            const branchArg = filterBranch ? ` ${filterBranch}` : '';
-            const gitCommand = `git log${branchArg} --pretty=format:"%H|%h|%P|%an|%ai|%D|%s" --date-order`;
+    // getCwd returns the root of the repository to operate on, which can change between calls
+    constructor(
+        private readonly getCwd: () => string | null,
+        private readonly onRefresh: () => void,
+    ) {}
 
-            cp.exec(gitCommand, { cwd }, (error, stdout) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Git error: ${error.message}`);
-                    resolve([]);
-                    return;
-                }
+    // revisions are the refs (or rev-list options) whose history is listed; HEAD when empty
+    async getGitLog(
+        revisions: string[],
+        skip: number,
+        limit: number,
+        filters: GitLogFilters = {},
+    ): Promise<GitLogPage> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return { commits: [], hasMore: false };
+        }
+
+        // --skip loses track of a followed file at its renames, so a followed history is read from its
+        // start: the first page alone, then, for the pages after it, all of it at once
+        const followKey = JSON.stringify([cwd, revisions, filters]);
+        if (filters.follow && skip === 0) {
+            this._followedLog = undefined;
+        } else if (filters.follow && this._followedLog?.key === followKey) {
+            const followed = this._followedLog.commits;
+            return { commits: followed.slice(skip, skip + limit), hasMore: followed.length > skip + limit };
+        }
+
+        const gitSkip = filters.follow ? 0 : skip;
+        const args = ['log', ...revisions];
+        // Full ref names tell remote branches apart from local ones whatever the remote is called
+        args.push('--pretty=format:%H|%h|%P|%an|%ai|%D|%s', '--decorate=full', '--date-order', `--skip=${gitSkip}`);
+        // Ask for one commit more than the page holds to know whether another page follows
+        if (!filters.follow || skip === 0) {
+            args.push('-n', `${limit + 1}`);
+        }
+        if (filters.path) {
+            // Line counts for the path, and parents rewritten to the commits that touched it
+            args.push('--numstat', ...(filters.follow ? [] : ['--parents']));
+        }
+        args.push(...this.getFilterArgs(filters));
+
+        let stdout: string;
+        try {
+            ({ stdout } = await runGit(cwd, args));
+        } catch (error) {
+            showGitError('Failed to load the history', error);
+            return { commits: [], hasMore: false };
+        }
+
+        const commits: GitCommit[] = [];
+        const statPaths: string[][] = [];
+        for (const line of stdout.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
 
-                const commits: GitCommit[] = stdout
-                    .split('\n')
-                    .filter((line) => line.trim())
-                    .map((line) => {
-                        const [fullHash, shortHash, parents, author, date, refs, ...messageParts] = line.split('|');
-                        const refList = refs
-                            .trim()
-                            .split(',')
-                            .map((r) => r.trim())
-                            .filter((r) => r);
-                        return {
-                            hash: fullHash.trim(),
-                            shortHash: shortHash.trim(),
-                            message: messageParts.join('|').trim(),
-                            date: new Date(date).toLocaleString(),
-                            author: author.trim(),
-                            parents: parents
-                                .trim()
-                                .split(' ')
-                                .map((p) => p.trim())
-                                .filter((p) => p),
-                            refs: refList,
-                        };
-                    });
-
-                resolve(commits);
+            const stat = line.match(/^(\d+|-)\t(\d+|-)\t(.*)$/);
+            if (stat && commits.length > 0) {
+                const commit = commits[commits.length - 1];
+                commit.fileStats = {
+                    added: (commit.fileStats?.added ?? 0) + (parseInt(stat[1], 10) || 0),
+                    removed: (commit.fileStats?.removed ?? 0) + (parseInt(stat[2], 10) || 0),
+                };
+                statPaths[commits.length - 1].push(getNumstatPath(stat[3]));
+                continue;
+            }
+
+            const [fullHash, shortHash, parents, author, date, refs, ...messageParts] = line.split('|');
+            const refList = refs
+                .trim()
+                .split(',')
+                .map((r) => r.trim())
+                .filter((r) => r);
+            commits.push({
+                hash: fullHash.trim(),
+                shortHash: shortHash.trim(),
+                message: messageParts.join('|').trim(),
+                date: new Date(date).toLocaleString(),
+                author: author.trim(),
+                parents: parents
+                    .trim()
+                    .split(' ')
+                    .map((p) => p.trim())
+                    .filter((p) => p),
+                refs: refList,
             });
+            statPaths.push([]);
+        }
+
+        commits.forEach((commit, i) => {
+            // Where a single file changed, its name in that commit, which differs after a rename
+            if (commit.fileStats && statPaths[i].length === 1) {
+                commit.fileStats.path = statPaths[i][0];
+            }
+            // git does not rewrite parents while following renames, so the history is shown
+            // as the chain of commits that touched the file
+            if (filters.follow) {
+                commit.parents = i + 1 < commits.length ? [commits[i + 1].hash] : [];
+            }
         });
+
+        if (filters.follow && skip > 0) {
+            this._followedLog = { key: followKey, commits };
+        }
+        const page = commits.slice(skip - gitSkip);
+        return { commits: page.slice(0, limit), hasMore: page.length > limit };
+    }
+
+    // Returns the hashes of the commits matching the filters, newest first, in the graph's order.
+    // git log has no option for a hash prefix, so that one is applied to git's output.
+    async findMatchingCommits(revisions: string[], filters: GitLogFilters): Promise<GitSearchResult> {
+        const prefix = filters.hashPrefix?.trim().toLowerCase();
+        const hashes = (await this.listCommitHashes(revisions, filters)).filter(
+            (hash) => !prefix || hash.startsWith(prefix),
+        );
+        return { hashes: hashes.slice(0, MAX_SEARCH_RESULTS), truncated: hashes.length > MAX_SEARCH_RESULTS };
+    }
+
+    // Position of a commit in the graph's order, or -1 when it is not part of the history shown
+    async getCommitPosition(revisions: string[], hash: string, filters: GitLogFilters = {}): Promise<number> {
+        return (await this.listCommitHashes(revisions, filters)).indexOf(hash);
+    }
+
+    private async listCommitHashes(revisions: string[], filters: GitLogFilters): Promise<string[]> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return [];
+        }
+
+        const args = ['log', ...revisions, '--format=%H', '--date-order'];
+        args.push(...this.getFilterArgs(filters));
+
+        try {
+            const { stdout } = await runGit(cwd, args);
+            return stdout.split('\n').filter((hash) => hash);
+        } catch (error) {
+            showGitError('Failed to search the history', error);
+            return [];
+        }
+    }
+
+    private getFilterArgs(filters: GitLogFilters): string[] {
+        const args: string[] = [];
+        if (filters.message) {
+            args.push(`--grep=${filters.message}`);
+        }
+        if (filters.author) {
+            args.push(`--author=${filters.author}`);
+        }
+        if (filters.message || filters.author) {
+            args.push('--regexp-ignore-case', '--fixed-strings');
+        }
+        if (filters.since) {
+            args.push(`--since=${filters.since} 00:00:00`);
+        }
+        if (filters.until) {
+            args.push(`--until=${filters.until} 23:59:59`);
+        }
+        if (filters.follow) {
+            args.push('--follow');
+        }
+        if (filters.path) {
+            args.push('--', filters.path);
+        }
+        return args;
     }
 
+    // Rewords any non-merge commit of the current branch: HEAD is amended, older commits are reworded
+    // by rebasing the commits after them. Other branches keep pointing at the original commits.
     async editCommitMessage(commitHash: string, newMessage?: string) {
         if (!newMessage) {
             return;
@@ -78,34 +208,249 @@ export class GitOperations {
             return;
         }
 
-        cp.exec(
-            `git commit --amend ${commitHash}~1..${commitHash} -m "${newMessage.replace(/"/g, '\\"')}"`,
-            { cwd },
-            (error) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to edit commit message: ${error.message}`);
+        try {
+            const git = async (...args: string[]) => (await runGit(cwd, args)).stdout.trim();
+            const headHash = await git('rev-parse', 'HEAD');
+            const [, ...parents] = (await git('rev-list', '--parents', '-n', '1', commitHash)).split(' ');
+            const isHead = commitHash === headHash;
+
+            if (!isHead) {
+                const onBranch = await runGit(cwd, ['merge-base', '--is-ancestor', commitHash, 'HEAD']).then(
+                    () => true,
+                    () => false,
+                );
+                if (!onBranch) {
+                    vscode.window.showErrorMessage('Only commits on the current branch can be reworded');
+                    return;
+                }
+                if (parents.length > 1) {
+                    vscode.window.showErrorMessage('Merge commits can only be reworded while they are HEAD');
                     return;
                 }
-                vscode.window.showInformationMessage('Commit message updated successfully');
-                this.onRefresh();
+                // The rebase would flatten merges that follow the commit
+                if (await git('rev-list', '--merges', `${commitHash}..HEAD`)) {
+                    vscode.window.showErrorMessage(
+                        `Cannot reword ${commitHash.substring(0, 7)}: merge commits follow it on the current branch`,
+                    );
+                    return;
+                }
+            }
+
+            if (!(await this.confirmRewrite(cwd, commitHash, 'Reword'))) {
+                return;
+            }
+
+            // The inline editor only edits the subject, so the body is kept
+            const body = await git('log', '-1', '--format=%b', commitHash);
+            const message = body ? `${newMessage}\n\n${body}` : newMessage;
+
+            if (isHead) {
+                // --only leaves out whatever is staged
+                await runGit(cwd, ['commit', '--amend', '--only', '-m', message]);
+            } else {
+                const upstream = parents[0] ?? null;
+                const entries = (await getRebaseEntries(cwd, upstream)).map(
+                    (entry): RebaseEntry =>
+                        entry.hash === commitHash ? { ...entry, action: 'reword', message } : entry,
+                );
+                await runInteractiveRebase(cwd, upstream, entries);
+            }
+        } catch (error) {
+            showGitError('Failed to edit commit message', error);
+            return;
+        }
+        vscode.window.showInformationMessage('Commit message updated successfully');
+        this.onRefresh();
+    }
+
+    async cherryPickCommit(commitHash: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        try {
+            await runGit(cwd, ['cherry-pick', commitHash]);
+        } catch (error) {
+            showGitError('Failed to cherry-pick commit', error);
+            return;
+        }
+        vscode.window.showInformationMessage('Commit cherry-picked successfully');
+        this.onRefresh();
+    }
+
+    // Asks before rewriting a commit that already is on a remote branch
+    private async confirmRewrite(cwd: string, commitHash: string, action: 'Reword' | 'Amend'): Promise<boolean> {
+        const { stdout } = await runGit(cwd, ['branch', '-r', '--contains', commitHash]);
+        const remoteBranches = stdout
+            .split('\n')
+            .map((b) => b.trim())
+            .filter((b) => b);
+        if (remoteBranches.length === 0) {
+            return true;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+            `Commit ${commitHash.substring(0, 7)} is already on ${remoteBranches.join(', ')}. ${action}ing it rewrites history others may have pulled.`,
+            { modal: true },
+            `${action} Anyway`,
+        );
+        return !!confirm;
+    }
+
+    async getWorkingTreeStatus(): Promise<WorkingTreeStatus | null> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return null;
+        }
+
+        let stdout: string;
+        try {
+            // Without --no-optional-locks, status refreshes the index under .git/index.lock, and the
+            // watcher on .git would take that for a change of the repository
+            ({ stdout } = await runGit(cwd, [
+                '--no-optional-locks',
+                'status',
+                '--porcelain=v1',
+                '-z',
+                '--untracked-files=all',
+            ]));
+        } catch (error) {
+            showGitError('Failed to read the working tree status', error);
+            return null;
+        }
+
+        const staged: WorkingTreeChange[] = [];
+        const unstaged: WorkingTreeChange[] = [];
+        // Entries are "XY path", followed by the original path for renames and copies
+        const fields = stdout.split('\0');
+        for (let i = 0; i < fields.length; i++) {
+            const field = fields[i];
+            if (field.length < 4) {
+                continue;
+            }
+            const [x, y, filePath] = [field[0], field[1], field.substring(3)];
+            const oldPath = x === 'R' || x === 'C' ? fields[++i] : undefined;
+
+            if (x === 'U' || y === 'U' || (x === y && (x === 'A' || x === 'D'))) {
+                unstaged.push({ path: filePath, status: 'U' });
+            } else if (x === '?') {
+                unstaged.push({ path: filePath, status: '?' });
+            } else {
+                if (x !== ' ') {
+                    staged.push({ path: filePath, oldPath, status: x });
+                }
+                if (y !== ' ') {
+                    unstaged.push({ path: filePath, status: y });
+                }
+            }
+        }
+
+        const head = await runGit(cwd, ['log', '-1', '--format=%H%n%B']).then(
+            ({ stdout }) => {
+                const [hash, ...message] = stdout.split('\n');
+                return { hash, message: message.join('\n').trim() };
             },
+            // No commit yet
+            () => null,
         );
+        return { staged, unstaged, head };
     }
 
-    async cherryPickCommit(commitHash: string) {
+    async stageFiles(paths: string[]) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        try {
+            await runGit(cwd, ['add', '-A', '--', ...paths]);
+        } catch (error) {
+            showGitError('Failed to stage changes', error);
+            return;
+        }
+        this.onRefresh();
+    }
+
+    async unstageFiles(paths: string[]) {
         const cwd = this.getCwd();
         if (!cwd) {
             return;
         }
+        try {
+            await runGit(cwd, ['reset', '-q', '--', ...paths]);
+        } catch (error) {
+            showGitError('Failed to unstage changes', error);
+            return;
+        }
+        this.onRefresh();
+    }
+
+    // Throws away the unstaged changes of the given files; untracked files are deleted
+    async discardChanges(paths: string[]) {
+        const status = await this.getWorkingTreeStatus();
+        const cwd = this.getCwd();
+        if (!status || !cwd) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            paths.length === 1
+                ? `Discard the changes to '${paths[0]}'? This cannot be undone.`
+                : `Discard the changes to ${paths.length} files? This cannot be undone.`,
+            { modal: true },
+            'Discard',
+        );
+        if (!confirm) {
+            return;
+        }
+
+        const untracked = new Set(status.unstaged.filter((c) => c.status === '?').map((c) => c.path));
+        const tracked = paths.filter((p) => !untracked.has(p));
+        try {
+            if (tracked.length > 0) {
+                await runGit(cwd, ['checkout', '--', ...tracked]);
+            }
+            if (tracked.length < paths.length) {
+                await runGit(cwd, ['clean', '-f', '-q', '--', ...paths.filter((p) => untracked.has(p))]);
+            }
+        } catch (error) {
+            showGitError('Failed to discard changes', error);
+            return;
+        }
+        this.onRefresh();
+    }
+
+    async commitChanges(message: string, amend: boolean) {
+        const status = await this.getWorkingTreeStatus();
+        const cwd = this.getCwd();
+        if (!status || !cwd || !message.trim()) {
+            return;
+        }
 
-        cp.exec(`git cherry-pick ${commitHash}`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to cherry-pick commit: ${error.message}\n${stderr}`);
+        try {
+            if (status.staged.length === 0 && !amend) {
+                if (status.unstaged.length === 0) {
+                    vscode.window.showInformationMessage('There are no changes to commit');
+                    return;
+                }
+                const confirm = await vscode.window.showWarningMessage(
+                    'There are no staged changes. Stage all changes and commit them?',
+                    { modal: true },
+                    'Stage All and Commit',
+                );
+                if (!confirm) {
+                    return;
+                }
+                await runGit(cwd, ['add', '-A']);
+            }
+            if (amend && status.head && !(await this.confirmRewrite(cwd, status.head.hash, 'Amend'))) {
                 return;
             }
-            vscode.window.showInformationMessage('Commit cherry-picked successfully');
-            this.onRefresh();
-        });
+            await runGit(cwd, ['commit', ...(amend ? ['--amend'] : []), '-m', message]);
+        } catch (error) {
+            showGitError(amend ? 'Failed to amend the commit' : 'Failed to commit', error);
+            return;
+        }
+        this.onRefresh();
     }
 
     async copyCommitHash(commitHash: string) {
@@ -128,14 +473,14 @@ export class GitOperations {
             return;
         }
 
-        cp.exec(`git revert ${commitHash} --no-edit`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to revert commit: ${error.message}\n${stderr}`);
-                return;
-            }
-            vscode.window.showInformationMessage('Commit reverted successfully');
-            this.onRefresh();
-        });
+        try {
+            await runGit(cwd, ['revert', commitHash, '--no-edit']);
+        } catch (error) {
+            showGitError('Failed to revert commit', error);
+            return;
+        }
+        vscode.window.showInformationMessage('Commit reverted successfully');
+        this.onRefresh();
     }
 
     async resetToCommit(commitHash: string) {
@@ -165,14 +510,14 @@ export class GitOperations {
             return;
         }
 
-        cp.exec(`git reset ${resetType.value} ${commitHash}`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to reset: ${error.message}\n${stderr}`);
-                return;
-            }
-            vscode.window.showInformationMessage(`Reset to commit ${commitHash.substring(0, 7)} successfully`);
-            this.onRefresh();
-        });
+        try {
+            await runGit(cwd, ['reset', resetType.value, commitHash]);
+        } catch (error) {
+            showGitError('Failed to reset', error);
+            return;
+        }
+        vscode.window.showInformationMessage(`Reset to commit ${commitHash.substring(0, 7)} successfully`);
+        this.onRefresh();
     }
 
     async squashCommits(hashes: string[], parentHash: string) {
@@ -195,81 +540,46 @@ export class GitOperations {
             return;
         }
 
-        const headHash = await new Promise<string>((resolve) => {
-            cp.exec('git rev-parse HEAD', { cwd }, (err, stdout) => resolve(err ? '' : stdout.trim()));
-        });
+        const headHash = await runGit(cwd, ['rev-parse', 'HEAD']).then(
+            ({ stdout }) => stdout.trim(),
+            () => '',
+        );
 
         if (hashes[0] === headHash) {
             // Selection ends at HEAD — simple reset + commit
-            const escaped = newMessage.replace(/"/g, '\\"');
-            cp.exec(`git reset --soft ${parentHash}`, { cwd }, (error) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to squash: ${error.message}`);
-                    return;
-                }
-                cp.exec(`git commit -m "${escaped}"`, { cwd }, (err2) => {
-                    if (err2) {
-                        vscode.window.showErrorMessage(`Failed to commit squash: ${err2.message}`);
-                        return;
-                    }
-                    vscode.window.showInformationMessage(`Squashed ${hashes.length} commits successfully`);
-                    this.onRefresh();
-                });
-            });
+            try {
+                await runGit(cwd, ['reset', '--soft', parentHash]);
+            } catch (error) {
+                showGitError('Failed to squash', error);
+                return;
+            }
+            try {
+                await runGit(cwd, ['commit', '-m', newMessage]);
+            } catch (error) {
+                showGitError('Failed to commit squash', error);
+                return;
+            }
+            vscode.window.showInformationMessage(`Squashed ${hashes.length} commits successfully`);
+            this.onRefresh();
         } else {
             // Selection is in the middle — use interactive rebase with scripted editors.
-            // hashes[hashes.length-1] is the oldest selected (stays 'pick');
+            // hashes[hashes.length-1] is the oldest selected (stays 'pick' and carries the new message);
             // all others become 'squash'.
-            const squashableHashes = hashes.slice(0, -1);
-
-            const seqEditorScript = `
-const fs = require('fs');
-const file = process.argv[2];
-const squashHashes = ${JSON.stringify(squashableHashes)};
-const lines = fs.readFileSync(file, 'utf8').split('\\n');
-const result = lines.map(line => {
-    const parts = line.trim().split(/\\s+/);
-    if ((parts[0] === 'pick' || parts[0] === 'p') && parts[1]) {
-        if (squashHashes.some(h => h.startsWith(parts[1]))) {
-            return 'squash ' + parts.slice(1).join(' ');
-        }
-    }
-    return line;
-});
-fs.writeFileSync(file, result.join('\\n'));
-`;
-            const msgEditorScript = `
-const fs = require('fs');
-fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
-`;
-
-            const tmpDir = os.tmpdir();
-            const seqEditorPath = path.join(tmpDir, 'git-lean-seq-editor.js');
-            const msgEditorPath = path.join(tmpDir, 'git-lean-msg-editor.js');
-            fs.writeFileSync(seqEditorPath, seqEditorScript);
-            fs.writeFileSync(msgEditorPath, msgEditorScript);
-
-            const env = {
-                ...process.env,
-                GIT_SEQUENCE_EDITOR: `node "${seqEditorPath}"`,
-                GIT_EDITOR: `node "${msgEditorPath}"`,
-            };
-
-            cp.exec(`git rebase -i ${parentHash}`, { cwd, env }, (error, _stdout, stderr) => {
-                try {
-                    fs.unlinkSync(seqEditorPath);
-                } catch {}
-                try {
-                    fs.unlinkSync(msgEditorPath);
-                } catch {}
-                if (error) {
-                    cp.exec('git rebase --abort', { cwd }, () => {});
-                    vscode.window.showErrorMessage(`Failed to squash: ${error.message}\n${stderr}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Squashed ${hashes.length} commits successfully`);
-                this.onRefresh();
-            });
+            const oldestHash = hashes[hashes.length - 1];
+            try {
+                const entries = (await getRebaseEntries(cwd, parentHash)).map((entry): RebaseEntry => {
+                    if (entry.hash === oldestHash) {
+                        return { ...entry, message: newMessage };
+                    }
+                    return hashes.includes(entry.hash) ? { ...entry, action: 'squash', message: '' } : entry;
+                });
+                await runInteractiveRebase(cwd, parentHash, entries);
+            } catch (error) {
+                showGitError('Failed to squash', error);
+                return;
+            }
+            vscode.window.showInformationMessage(`Squashed ${hashes.length} commits successfully`);
+            this.onRefresh();
         }
     }
 
@@ -280,14 +590,13 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
         }
 
         // hashes are newest-first; cherry-pick oldest to newest
-        const ordered = [...hashes].reverse().join(' ');
-        cp.exec(`git cherry-pick ${ordered}`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to cherry-pick: ${error.message}\n${stderr}`);
-                return;
-            }
-            vscode.window.showInformationMessage(`Cherry-picked ${hashes.length} commits successfully`);
-            this.onRefresh();
-        });
+        try {
+            await runGit(cwd, ['cherry-pick', ...[...hashes].reverse()]);
+        } catch (error) {
+            showGitError('Failed to cherry-pick', error);
+            return;
+        }
+        vscode.window.showInformationMessage(`Cherry-picked ${hashes.length} commits successfully`);
+        this.onRefresh();
     }
 }
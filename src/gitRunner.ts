@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+
+export type GitErrorKind = 'conflict' | 'dirtyTree' | 'notARepository' | 'auth' | 'outputTooLarge' | 'unknown';
+
+export class GitError extends Error {
+    constructor(
+        message: string,
+        public readonly kind: GitErrorKind,
+        public readonly stderr: string,
+        public readonly exitCode: number | null,
+    ) {
+        super(message);
+        this.name = 'GitError';
+    }
+}
+
+export interface GitResult {
+    stdout: string;
+    stderr: string;
+}
+
+export interface GitRunOptions {
+    env?: NodeJS.ProcessEnv;
+    maxBuffer?: number;
+    // Written to git's standard input
+    input?: string;
+}
+
+// Matched against git's output, first match wins
+const ERROR_PATTERNS: [GitErrorKind, RegExp][] = [
+    ['notARepository', /not a git repository/i],
+    [
+        'auth',
+        /Authentication failed|could not read (Username|Password)|Permission denied \(publickey|terminal prompts disabled|The requested URL returned error: 40[13]/i,
+    ],
+    ['conflict', /CONFLICT|could not apply|fix conflicts|unmerged files|needs merge|after resolving the conflicts/i],
+    [
+        'dirtyTree',
+        /local changes to the following files would be overwritten|commit your changes or stash them|You have unstaged changes|Your index contains uncommitted changes|untracked working tree files would be overwritten/i,
+    ],
+];
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+export function getOutputChannel(): vscode.OutputChannel {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('Git Lean');
+    }
+    return outputChannel;
+}
+
+function classify(output: string): GitErrorKind {
+    return ERROR_PATTERNS.find(([, pattern]) => pattern.test(output))?.[0] ?? 'unknown';
+}
+
+// Shows arguments the way they would have to be typed in a shell, so logged commands can be re-run
+function formatArg(arg: string): string {
+    return /^[\w@%+=:,./~^-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+// Runs git with an argument array, without a shell in between, and logs the invocation to the
+// Git Lean output channel. Rejects with a GitError when git exits with a non-zero status.
+export function runGit(cwd: string, args: string[], options: GitRunOptions = {}): Promise<GitResult> {
+    const log = getOutputChannel();
+    const command = ['git', ...args].map(formatArg).join(' ');
+    const started = Date.now();
+    log.appendLine(`[${new Date().toLocaleTimeString()}] ${command}`);
+
+    const maxBuffer = options.maxBuffer ?? 64 * 1024 * 1024;
+    return new Promise((resolve, reject) => {
+        const child = cp.execFile(
+            'git',
+            args,
+            {
+                cwd,
+                maxBuffer,
+                // Never wait on a credential prompt nobody can answer
+                env: { ...process.env, GIT_TERMINAL_PROMPT: '0', ...options.env },
+            },
+            (error, stdout, stderr) => {
+                const elapsed = `${Date.now() - started}ms`;
+                // git is killed once it has printed maxBuffer bytes; what it printed so far is of no use
+                if (error?.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+                    log.appendLine(`  output exceeded ${maxBuffer} bytes (${elapsed})`);
+                    reject(new GitError(`git printed more than ${maxBuffer} bytes`, 'outputTooLarge', stderr, null));
+                    return;
+                }
+                if (error) {
+                    const exitCode = typeof error.code === 'number' ? error.code : null;
+                    const output = `${stderr}\n${stdout}`.trim();
+                    log.appendLine(`  failed (exit ${exitCode ?? error.code}, ${elapsed})`);
+                    if (output) {
+                        log.appendLine(output.replace(/^/gm, '  '));
+                    }
+                    reject(new GitError(output || error.message, classify(output), stderr, exitCode));
+                    return;
+                }
+                log.appendLine(`  done (${elapsed})`);
+                resolve({ stdout, stderr });
+            },
+        );
+        if (options.input !== undefined) {
+            child.stdin?.end(options.input);
+        }
+    });
+}
+
+const ERROR_HINTS: Partial<Record<GitErrorKind, string>> = {
+    conflict: 'Resolve the conflicts, then choose Continue or Abort in the Commit Tree.',
+    dirtyTree: 'Commit or stash your changes first.',
+    notARepository: 'The folder is not a git repository.',
+    auth: 'Authentication with the remote failed.',
+};
+
+// Reports a failed git command, with a shortcut to the command log
+export async function showGitError(action: string, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const hint = error instanceof GitError ? ERROR_HINTS[error.kind] : undefined;
+    const choice = await vscode.window.showErrorMessage(
+        `${action}: ${message}${hint ? `\n${hint}` : ''}`,
+        'Show Command Log',
+    );
+    if (choice) {
+        getOutputChannel().show(true);
+    }
+}
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runGit } from './gitRunner';
+import { RebaseAction, RebaseEntry } from './shared/types';
+
+// Written next to git's todo when the rebase starts, so it is removed with the rest of the rebase
+// state and can still answer after the rebase stopped and was continued
+const MESSAGE_EDITOR = 'git-lean-message-editor.js';
+
+// Todo commands and their abbreviations; other lines, such as exec or update-ref, are not kept
+const TODO_ACTIONS: Record<string, RebaseAction> = {
+    p: 'pick',
+    pick: 'pick',
+    r: 'reword',
+    reword: 'reword',
+    e: 'edit',
+    edit: 'edit',
+    s: 'squash',
+    squash: 'squash',
+    f: 'fixup',
+    fixup: 'fixup',
+    d: 'drop',
+    drop: 'drop',
+};
+
+// The todo git writes for a rebase onto upstream. The sequence editor copies it and fails, so git
+// gives up before changing anything.
+async function readRebaseTodo(cwd: string, upstream: string | null): Promise<string> {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-lean-rebase-'));
+    const todoPath = path.join(tmpDir, 'todo');
+    const seqEditorPath = path.join(tmpDir, 'seq-editor.js');
+    fs.writeFileSync(
+        seqEditorPath,
+        `require('fs').copyFileSync(process.argv[2], ${JSON.stringify(todoPath)});\nprocess.exit(1);\n`,
+    );
+
+    try {
+        await runGit(cwd, ['rebase', '-i', ...(upstream ? [upstream] : ['--root'])], {
+            env: { GIT_SEQUENCE_EDITOR: `node "${seqEditorPath}"` },
+        });
+    } catch (error) {
+        // git failed before it asked for the todo, e.g. on uncommitted changes
+        if (!fs.existsSync(todoPath)) {
+            throw error;
+        }
+    }
+    try {
+        return fs.readFileSync(todoPath, 'utf8');
+    } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+}
+
+// Commits a rebase onto upstream replays, oldest first; all of HEAD's history when upstream is null.
+// They are the ones git lists itself, so commits already upstream are left out, as are merges.
+export async function getRebaseEntries(cwd: string, upstream: string | null): Promise<RebaseEntry[]> {
+    const todo: { action: RebaseAction; hash: string }[] = [];
+    for (const line of (await readRebaseTodo(cwd, upstream)).split('\n')) {
+        const match = line.match(/^(\w+)(?: -[cC])? ([0-9a-f]+)/);
+        if (match && TODO_ACTIONS[match[1]]) {
+            todo.push({ action: TODO_ACTIONS[match[1]], hash: match[2] });
+        }
+    }
+    if (todo.length === 0) {
+        return [];
+    }
+
+    const { stdout } = await runGit(cwd, [
+        'log',
+        '--no-walk=unsorted',
+        '--format=%H%x00%h%x00%s%x00%B%x1e',
+        ...todo.map((entry) => entry.hash),
+    ]);
+    const commits = stdout
+        .split('\x1e')
+        .filter((record) => record.trim())
+        .map((record) => record.trim().split('\x00'));
+    return todo.map(({ action, hash }) => {
+        const [fullHash, shortHash, subject, message = ''] = commits.find(([h]) => h.startsWith(hash)) ?? [hash];
+        return {
+            hash: fullHash,
+            shortHash: shortHash ?? hash,
+            subject: subject ?? '',
+            message: message.trim(),
+            action,
+        };
+    });
+}
+
+export function buildRebaseTodo(entries: RebaseEntry[]): string {
+    return entries.map((e) => `${e.action} ${e.hash} ${e.subject}`).join('\n') + '\n';
+}
+
+// The message git asks for at each commit that opens the editor, keyed by that commit's hash: a
+// reworded commit, and the last commit of each run of squashes, which gets the messages of the
+// run's commits except the fixups
+export function getRebaseMessages(entries: RebaseEntry[]): Record<string, string> {
+    const messages: Record<string, string> = {};
+    const kept = entries.filter((e) => e.action !== 'drop');
+    kept.forEach((entry, i) => {
+        if (entry.action === 'reword') {
+            messages[entry.hash] = entry.message;
+        }
+        const next = kept[i + 1];
+        if (entry.action !== 'squash' && entry.action !== 'fixup') {
+            return;
+        }
+        if (next && (next.action === 'squash' || next.action === 'fixup')) {
+            return;
+        }
+
+        let start = i;
+        while (start > 0 && (kept[start].action === 'squash' || kept[start].action === 'fixup')) {
+            start--;
+        }
+        const run = kept.slice(start, i + 1);
+        if (run.some((e) => e.action === 'squash')) {
+            messages[entry.hash] = run
+                .filter((e, j) => j === 0 || e.action === 'squash')
+                .map((e) => e.message.trim())
+                .filter((message) => message)
+                .join('\n\n');
+        }
+    });
+    return messages;
+}
+
+// Runs git rebase -i with the given todo instead of asking for one, answering every message prompt
+// from the entries. Rejects with a GitError when git stops on a conflict or fails to start.
+export async function runInteractiveRebase(cwd: string, upstream: string | null, entries: RebaseEntry[]) {
+    const messageEditorScript = `
+const fs = require('fs');
+const path = require('path');
+const messages = ${JSON.stringify(getRebaseMessages(entries))};
+const done = fs.readFileSync(path.join(__dirname, 'done'), 'utf8').trim().split('\\n');
+const hash = (done[done.length - 1] || '').trim().split(/\\s+/)[1];
+const key = hash && Object.keys(messages).find((h) => h.startsWith(hash) || hash.startsWith(h));
+if (key) {
+    fs.writeFileSync(process.argv[2], messages[key] + '\\n');
+}
+`;
+    const seqEditorScript = `
+const fs = require('fs');
+const path = require('path');
+fs.writeFileSync(process.argv[2], ${JSON.stringify(buildRebaseTodo(entries))});
+fs.writeFileSync(path.join(path.dirname(process.argv[2]), ${JSON.stringify(MESSAGE_EDITOR)}), ${JSON.stringify(messageEditorScript)});
+`;
+
+    const { stdout: gitDir } = await runGit(cwd, ['rev-parse', '--absolute-git-dir']);
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-lean-rebase-'));
+    const seqEditorPath = path.join(tmpDir, 'seq-editor.js');
+    fs.writeFileSync(seqEditorPath, seqEditorScript);
+
+    try {
+        await runGit(cwd, ['rebase', '-i', ...(upstream ? [upstream] : ['--root'])], {
+            env: {
+                GIT_SEQUENCE_EDITOR: `node "${seqEditorPath}"`,
+                GIT_EDITOR: getMessageEditor(gitDir.trim()),
+            },
+        });
+    } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+}
+
+// Editor command for continuing a rebase: the message editor of a rebase started here, or one that
+// keeps the message git prepared
+export function getRebaseEditor(gitDir: string): string {
+    return fs.existsSync(path.join(gitDir, 'rebase-merge', MESSAGE_EDITOR)) ? getMessageEditor(gitDir) : 'true';
+}
+
+function getMessageEditor(gitDir: string): string {
+    return `node "${path.join(gitDir, 'rebase-merge', MESSAGE_EDITOR)}"`;
+}
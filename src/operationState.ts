@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitError, runGit, showGitError } from './gitRunner';
+import { getRebaseEditor } from './interactiveRebase';
+import { Repository } from './repositoryManager';
+import { OperationAction, OperationKind, OperationState } from './shared/types';
+
+const GIT_COMMANDS: Record<OperationKind, string> = {
+    rebase: 'rebase',
+    merge: 'merge',
+    cherryPick: 'cherry-pick',
+    revert: 'revert',
+};
+
+const CONFLICT_MARKER = /^(<{7}|>{7})( |$)/m;
+
+async function readGitFile(gitDir: string, name: string): Promise<string | undefined> {
+    try {
+        return (await fs.promises.readFile(path.join(gitDir, name), 'utf8')).trim();
+    } catch {
+        return undefined;
+    }
+}
+
+// Reads the state git keeps in the .git directory while an operation waits for the user
+export async function getOperationState(repository: Repository): Promise<OperationState | null> {
+    const read = (name: string) => readGitFile(repository.gitDir, name);
+
+    let state: Omit<OperationState, 'conflicts'> | null = null;
+    let commitHash: string | undefined;
+
+    // rebase-merge is used by interactive and the default rebase, rebase-apply by the apply backend
+    const rebaseDir = (await read('rebase-merge/head-name')) !== undefined ? 'rebase-merge' : 'rebase-apply';
+    const headName = await read(`${rebaseDir}/head-name`);
+    if (headName !== undefined) {
+        const [step, total] =
+            rebaseDir === 'rebase-merge'
+                ? [await read('rebase-merge/msgnum'), await read('rebase-merge/end')]
+                : [await read('rebase-apply/next'), await read('rebase-apply/last')];
+        state = {
+            kind: 'rebase',
+            branch: headName.replace(/^refs\/heads\//, ''),
+            step: step ? parseInt(step, 10) : undefined,
+            total: total ? parseInt(total, 10) : undefined,
+        };
+        commitHash = (await read('REBASE_HEAD')) ?? (await read('rebase-merge/stopped-sha'));
+    } else if ((commitHash = await read('MERGE_HEAD')) !== undefined) {
+        state = { kind: 'merge' };
+    } else if ((commitHash = await read('CHERRY_PICK_HEAD')) !== undefined) {
+        state = { kind: 'cherryPick' };
+    } else if ((commitHash = await read('REVERT_HEAD')) !== undefined) {
+        state = { kind: 'revert' };
+    }
+    if (!state) {
+        return null;
+    }
+
+    if (state.kind === 'cherryPick' || state.kind === 'revert') {
+        // The sequencer lists the current commit and the ones after it when several were picked
+        const todo = await read('sequencer/todo');
+        const remaining = todo?.split('\n').filter((line) => /^(pick|revert|p) /.test(line)).length;
+        if (remaining && remaining > 1) {
+            state.remaining = remaining;
+        }
+    }
+
+    const [commit, conflicts] = await Promise.all([
+        commitHash ? getCommitSummary(repository.root, commitHash.split('\n')[0]) : undefined,
+        getConflicts(repository.root),
+    ]);
+    return { ...state, commit, conflicts };
+}
+
+async function getCommitSummary(cwd: string, hash: string): Promise<OperationState['commit']> {
+    try {
+        const { stdout } = await runGit(cwd, ['log', '-1', '--format=%H%n%s', hash]);
+        const [fullHash, subject = ''] = stdout.trim().split('\n');
+        return { hash: fullHash, subject };
+    } catch {
+        return undefined;
+    }
+}
+
+async function getConflicts(cwd: string): Promise<string[]> {
+    try {
+        const { stdout } = await runGit(cwd, ['diff', '--name-only', '--diff-filter=U']);
+        return stdout.split('\n').filter((file) => file);
+    } catch {
+        return [];
+    }
+}
+
+// Continues, skips or aborts whatever operation is in progress in the repository
+export async function runOperationAction(repository: Repository, action: OperationAction) {
+    const state = await getOperationState(repository);
+    // A merge has no commit to skip
+    if (!state || (action === 'skip' && state.kind === 'merge')) {
+        return;
+    }
+    const command = GIT_COMMANDS[state.kind];
+
+    if (action === 'continue' && state.conflicts.length > 0) {
+        // git only continues once the conflicting files are staged, which marks them resolved
+        const unresolved = state.conflicts.filter((file) => {
+            try {
+                return CONFLICT_MARKER.test(fs.readFileSync(path.join(repository.root, file), 'utf8'));
+            } catch {
+                return false;
+            }
+        });
+        if (unresolved.length > 0) {
+            vscode.window.showErrorMessage(`Conflict markers remain in ${unresolved.join(', ')}`);
+            return;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+            `Mark ${state.conflicts.length} conflicting file(s) as resolved and continue the ${command}?`,
+            { modal: true },
+            'Stage and Continue',
+        );
+        if (!confirm) {
+            return;
+        }
+        try {
+            await runGit(repository.root, ['add', '-A', '--', ...state.conflicts]);
+        } catch (error) {
+            showGitError('Failed to stage the resolved files', error);
+            return;
+        }
+    }
+
+    if (action === 'abort') {
+        const confirm = await vscode.window.showWarningMessage(
+            `Abort the ${command}? Changes made since it started will be discarded.`,
+            'Yes',
+            'No',
+        );
+        if (confirm !== 'Yes') {
+            return;
+        }
+    }
+
+    try {
+        // Keep the message git prepared, or the one given in the rebase editor, instead of waiting on an editor
+        const editor = state.kind === 'rebase' ? getRebaseEditor(repository.gitDir) : 'true';
+        await runGit(repository.root, [command, `--${action}`], { env: { GIT_EDITOR: editor } });
+    } catch (error) {
+        // Stopping at the next conflict is progress; the banner shows where it stands
+        if (!(error instanceof GitError && error.kind === 'conflict')) {
+            showGitError(`Failed to ${action} the ${command}`, error);
+        }
+    }
+}
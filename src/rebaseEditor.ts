@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { GitError, runGit, showGitError } from './gitRunner';
+import { getRebaseEntries, runInteractiveRebase } from './interactiveRebase';
+import { getOperationState } from './operationState';
+import { Repository } from './repositoryManager';
+import { RebaseEditorMessage, RebaseEntry } from './shared/types';
+import { getRebaseEditorHtml } from './webviewContent';
+
+export class RebaseEditorPanel {
+    private static currentPanel: RebaseEditorPanel | undefined;
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _running = false;
+
+    private constructor(
+        private readonly _panel: vscode.WebviewPanel,
+        private readonly _repository: Repository,
+        // Rebased onto; null rebases from the root commit
+        private readonly _upstream: string | null,
+        // HEAD when the editor opened, so a todo gone stale is not run
+        private readonly _headHash: string,
+    ) {
+        _panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        _panel.webview.onDidReceiveMessage(
+            (message: RebaseEditorMessage) => this.handleMessage(message),
+            null,
+            this._disposables,
+        );
+    }
+
+    // Opens the editor on the commits of the current branch that a rebase onto upstream replays
+    public static async show(
+        extensionUri: vscode.Uri,
+        repository: Repository,
+        upstream: string | null,
+        upstreamLabel: string,
+    ) {
+        let entries: RebaseEntry[];
+        let headHash: string;
+        let merges: number;
+        try {
+            headHash = (await runGit(repository.root, ['rev-parse', 'HEAD'])).stdout.trim();
+            entries = await getRebaseEntries(repository.root, upstream);
+            const range = upstream ? `${upstream}..HEAD` : 'HEAD';
+            merges = parseInt((await runGit(repository.root, ['rev-list', '--count', '--merges', range])).stdout, 10);
+        } catch (error) {
+            showGitError('Failed to list the commits to rebase', error);
+            return;
+        }
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage(`The current branch has no commits to rebase onto ${upstreamLabel}`);
+            return;
+        }
+
+        RebaseEditorPanel.currentPanel?._panel.dispose();
+        const panel = vscode.window.createWebviewPanel(
+            'gitLeanRebaseEditor',
+            `Rebase onto ${upstreamLabel}`,
+            vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One,
+            { enableScripts: true, localResourceRoots: [extensionUri], retainContextWhenHidden: true },
+        );
+        panel.webview.html = getRebaseEditorHtml(panel.webview, { upstreamLabel, entries, merges }, extensionUri);
+        RebaseEditorPanel.currentPanel = new RebaseEditorPanel(panel, repository, upstream, headHash);
+    }
+
+    private handleMessage(message: RebaseEditorMessage) {
+        switch (message.command) {
+            case 'start':
+                this.start(message.entries);
+                break;
+            case 'cancel':
+                this._panel.dispose();
+                break;
+        }
+    }
+
+    private async start(entries: RebaseEntry[]) {
+        if (this._running) {
+            return;
+        }
+        const first = entries.find((e) => e.action !== 'drop');
+        if (first && (first.action === 'squash' || first.action === 'fixup')) {
+            vscode.window.showErrorMessage(
+                'The first commit cannot be squashed: there is no commit before it to squash into',
+            );
+            return;
+        }
+
+        const cwd = this._repository.root;
+        this._running = true;
+        try {
+            const head = (await runGit(cwd, ['rev-parse', 'HEAD'])).stdout.trim();
+            if (head !== this._headHash) {
+                vscode.window.showErrorMessage('The branch changed since the rebase editor was opened; open it again');
+                return;
+            }
+            await runInteractiveRebase(cwd, this._upstream, entries);
+        } catch (error) {
+            showGitError('Interactive rebase failed', error);
+            // A rebase stopped on a conflict carries on from the banner in the Commit Tree
+            if (error instanceof GitError && error.kind === 'conflict') {
+                this._panel.dispose();
+            }
+            return;
+        } finally {
+            this._running = false;
+        }
+
+        this._panel.dispose();
+        const stopped = await getOperationState(this._repository);
+        if (stopped?.kind === 'rebase') {
+            vscode.window.showInformationMessage(
+                'The rebase stopped to edit a commit. Amend it, then choose Continue in the Commit Tree.',
+            );
+        } else {
+            vscode.window.showInformationMessage('Rebased successfully');
+        }
+    }
+
+    private dispose() {
+        if (RebaseEditorPanel.currentPanel === this) {
+            RebaseEditorPanel.currentPanel = undefined;
+        }
+        this._disposables.forEach((d) => d.dispose());
+    }
+}
@@ -0,0 +1,16 @@
+export type RefKind = 'Branch' | 'Tag';
+
+// Checks a branch or tag name typed by the user. A name starting with '-' is refused as well, as git
+// would take it for an option wherever it cannot be put after '--'.
+export function validateRefName(kind: RefKind, value: string): string | null {
+    if (!value || !value.trim()) {
+        return `${kind} name cannot be empty`;
+    }
+    if (value.startsWith('-')) {
+        return `${kind} name cannot start with '-'`;
+    }
+    if (/[\s~^:?*\[\\]|\.\./.test(value)) {
+        return `Invalid ${kind.toLowerCase()} name`;
+    }
+    return null;
+}
@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import { runGit, showGitError } from './gitRunner';
+import { UpstreamTracking } from './shared/types';
+
+export async function getRemotes(cwd: string): Promise<string[]> {
+    try {
+        const { stdout } = await runGit(cwd, ['remote']);
+        return stdout
+            .split('\n')
+            .map((r) => r.trim())
+            .filter((r) => r);
+    } catch {
+        return [];
+    }
+}
+
+// The only remote when there is one, otherwise the one the user picks; undefined when there is none
+// or the pick was cancelled
+export async function pickRemote(cwd: string, placeHolder: string): Promise<string | undefined> {
+    const remotes = await getRemotes(cwd);
+    if (remotes.length === 0) {
+        vscode.window.showErrorMessage('This repository has no remotes');
+        return undefined;
+    }
+    if (remotes.length === 1) {
+        return remotes[0];
+    }
+    return vscode.window.showQuickPick(remotes, { placeHolder });
+}
+
+// for-each-ref format of the fields parseTracking reads, separated by NUL
+export const TRACKING_FORMAT = '%(upstream:short)%00%(upstream:track,nobracket)';
+
+// Parses "ahead 1, behind 2", "gone" or "" for a branch with an upstream
+export function parseTracking(upstream: string, track: string): UpstreamTracking | undefined {
+    if (!upstream) {
+        return undefined;
+    }
+    return {
+        upstream,
+        ahead: parseInt(track.match(/ahead (\d+)/)?.[1] ?? '0', 10),
+        behind: parseInt(track.match(/behind (\d+)/)?.[1] ?? '0', 10),
+        gone: track === 'gone',
+    };
+}
+
+// The upstream of the checked-out branch; null when HEAD is detached or the branch tracks nothing
+export async function getHeadTracking(cwd: string): Promise<UpstreamTracking | null> {
+    try {
+        const { stdout } = await runGit(cwd, ['for-each-ref', `--format=%(HEAD)%00${TRACKING_FORMAT}`, 'refs/heads']);
+        const head = stdout.split('\n').find((line) => line.startsWith('*'));
+        const [, upstream = '', track = ''] = head?.split('\0') ?? [];
+        return parseTracking(upstream, track) ?? null;
+    } catch {
+        return null;
+    }
+}
+
+// The remote and the branch on it that a local branch tracks, if any
+async function getUpstream(cwd: string, branch: string): Promise<{ remote: string; ref: string } | undefined> {
+    const { stdout } = await runGit(cwd, [
+        'for-each-ref',
+        '--format=%(upstream:remotename)%00%(upstream:remoteref)',
+        `refs/heads/${branch}`,
+    ]);
+    const [remote, ref] = stdout.trim().split('\0');
+    return remote && ref ? { remote, ref } : undefined;
+}
+
+async function getCurrentBranch(cwd: string): Promise<string | undefined> {
+    const { stdout } = await runGit(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']);
+    const branch = stdout.trim();
+    if (branch === 'HEAD') {
+        vscode.window.showErrorMessage('HEAD is detached; check out a branch first');
+        return undefined;
+    }
+    return branch;
+}
+
+// Network commands can take a while, so they run under a progress notification
+export function withProgress<T>(title: string, task: () => Promise<T>): Thenable<T> {
+    return vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title }, task);
+}
+
+// Fetches one remote, or every remote when none is given, pruning deleted branches
+export async function fetch(cwd: string, remote?: string) {
+    const title = remote ? `Fetching ${remote}` : 'Fetching all remotes';
+    try {
+        await withProgress(title, () => runGit(cwd, ['fetch', '--prune', ...(remote ? [remote] : ['--all'])]));
+    } catch (error) {
+        showGitError('Fetch failed', error);
+        return;
+    }
+    vscode.window.showInformationMessage(remote ? `Fetched ${remote}` : 'Fetched all remotes');
+}
+
+// Pulls into the current branch from its upstream, or from the same branch on a picked remote,
+// merging or rebasing as the user chooses
+export async function pull(cwd: string) {
+    try {
+        const branch = await getCurrentBranch(cwd);
+        if (!branch) {
+            return;
+        }
+
+        const mode = await vscode.window.showQuickPick(
+            [
+                { label: 'Merge', description: 'Merge the remote changes into the branch', value: '--no-rebase' },
+                { label: 'Rebase', description: 'Rebase the local commits onto the remote ones', value: '--rebase' },
+            ],
+            { placeHolder: `Pull into '${branch}'` },
+        );
+        if (!mode) {
+            return;
+        }
+
+        const args = ['pull', mode.value];
+        let source = 'its upstream';
+        if (!(await getUpstream(cwd, branch))) {
+            const remote = await pickRemote(cwd, `'${branch}' has no upstream; pull from`);
+            if (!remote) {
+                return;
+            }
+            args.push(remote, branch);
+            source = `${remote}/${branch}`;
+        }
+        await withProgress(`Pulling '${branch}' from ${source}`, () => runGit(cwd, args));
+    } catch (error) {
+        showGitError('Pull failed', error);
+        return;
+    }
+    vscode.window.showInformationMessage('Pulled successfully');
+}
+
+// Pushes a local branch, the current one by default, to its upstream. A branch without an
+// upstream is pushed to the same name on a picked remote, which then becomes its upstream.
+export async function push(cwd: string, branch: string | undefined, force: boolean) {
+    try {
+        // The HEAD item names a detached HEAD 'HEAD'
+        branch = branch && branch !== 'HEAD' ? branch : await getCurrentBranch(cwd);
+        if (!branch) {
+            return;
+        }
+
+        const upstream = await getUpstream(cwd, branch);
+        const remote = upstream?.remote ?? (await pickRemote(cwd, `Push '${branch}' to`));
+        if (!remote) {
+            return;
+        }
+
+        if (force) {
+            const confirm = await vscode.window.showWarningMessage(
+                `Force push '${branch}' to ${remote}? Its history there is replaced by yours, unless it has commits you have not fetched.`,
+                { modal: true },
+                'Force Push',
+            );
+            if (!confirm) {
+                return;
+            }
+        }
+
+        const args = ['push', ...(force ? ['--force-with-lease'] : [])];
+        if (upstream) {
+            args.push(remote, `${branch}:${upstream.ref}`);
+        } else {
+            args.push('--set-upstream', remote, branch);
+        }
+        await withProgress(`Pushing '${branch}' to ${remote}`, () => runGit(cwd, args));
+    } catch (error) {
+        showGitError('Push failed', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Pushed '${branch}'`);
+}
+
+export async function setUpstream(cwd: string, branch: string) {
+    let stdout: string;
+    try {
+        ({ stdout } = await runGit(cwd, ['for-each-ref', '--format=%(refname:short)', 'refs/remotes']));
+    } catch (error) {
+        showGitError('Failed to list the remote branches', error);
+        return;
+    }
+    const remoteBranches = stdout.split('\n').filter((b) => b.trim() && !b.endsWith('/HEAD'));
+    if (remoteBranches.length === 0) {
+        vscode.window.showErrorMessage('There are no remote branches to track; fetch or push first');
+        return;
+    }
+
+    const upstream = await vscode.window.showQuickPick(remoteBranches, { placeHolder: `Upstream for '${branch}'` });
+    if (!upstream) {
+        return;
+    }
+    try {
+        await runGit(cwd, ['branch', `--set-upstream-to=${upstream}`, branch]);
+    } catch (error) {
+        showGitError('Failed to set the upstream', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`'${branch}' now tracks '${upstream}'`);
+}
+
+export async function unsetUpstream(cwd: string, branch: string) {
+    try {
+        await runGit(cwd, ['branch', '--unset-upstream', branch]);
+    } catch (error) {
+        showGitError('Failed to unset the upstream', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`'${branch}' no longer tracks an upstream`);
+}
@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from './gitRunner';
+
+export interface Repository {
+    // Working tree root
+    root: string;
+    // Resolved .git directory, which lives elsewhere for worktrees and submodules
+    gitDir: string;
+    name: string;
+}
+
+// How deep below each workspace folder nested repositories are looked for
+const MAX_SCAN_DEPTH = 3;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'out', 'dist', 'build']);
+const SELECTED_REPOSITORY_KEY = 'gitLean.selectedRepository';
+
+export class RepositoryManager implements vscode.Disposable {
+    private _repositories: Repository[] = [];
+    private _current: Repository | undefined;
+    private readonly _watchers = new Map<string, vscode.FileSystemWatcher>();
+    private readonly _workingTreeWatchers = new Map<string, vscode.FileSystemWatcher>();
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private readonly _onDidChangeRepositories = new vscode.EventEmitter<void>();
+    readonly onDidChangeRepositories = this._onDidChangeRepositories.event;
+    private readonly _onDidChangeCurrent = new vscode.EventEmitter<Repository | undefined>();
+    readonly onDidChangeCurrent = this._onDidChangeCurrent.event;
+    // Fires with the repository whose .git directory changed
+    private readonly _onDidChangeState = new vscode.EventEmitter<Repository>();
+    readonly onDidChangeState = this._onDidChangeState.event;
+    // Fires with the repository in whose working tree a file changed
+    private readonly _onDidChangeWorkingTree = new vscode.EventEmitter<Repository>();
+    readonly onDidChangeWorkingTree = this._onDidChangeWorkingTree.event;
+
+    constructor(private readonly _workspaceState: vscode.Memento) {
+        this._disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.discover()));
+    }
+
+    get repositories(): readonly Repository[] {
+        return this._repositories;
+    }
+
+    get current(): Repository | undefined {
+        return this._current;
+    }
+
+    async discover(): Promise<void> {
+        const roots = new Set<string>();
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            // The folder itself may sit anywhere inside a repository
+            const topLevel = await this.getTopLevel(folder.uri.fsPath);
+            if (topLevel) {
+                roots.add(topLevel);
+            }
+            for (const nested of await this.findNestedRepositories(folder.uri.fsPath, 0)) {
+                roots.add(nested);
+            }
+        }
+
+        const repositories: Repository[] = [];
+        for (const root of roots) {
+            const gitDir = await this.getGitDir(root);
+            if (gitDir) {
+                repositories.push({ root, gitDir, name: path.basename(root) });
+            }
+        }
+        repositories.sort((a, b) => a.root.localeCompare(b.root));
+        this._repositories = repositories;
+        this.updateWatchers();
+
+        vscode.commands.executeCommand('setContext', 'gitLean.multipleRepositories', repositories.length > 1);
+        this._onDidChangeRepositories.fire();
+
+        const remembered = this._workspaceState.get<string>(SELECTED_REPOSITORY_KEY);
+        const current =
+            repositories.find((r) => r.root === this._current?.root) ??
+            repositories.find((r) => r.root === remembered) ??
+            repositories[0];
+        if (current?.root !== this._current?.root) {
+            this.select(current);
+        }
+    }
+
+    select(repository: Repository | undefined) {
+        this._current = repository;
+        this._workspaceState.update(SELECTED_REPOSITORY_KEY, repository?.root);
+        this._onDidChangeCurrent.fire(repository);
+    }
+
+    async pick(): Promise<void> {
+        const picked = await vscode.window.showQuickPick(
+            this._repositories.map((repository) => ({
+                label: repository.name,
+                description: repository.root,
+                picked: repository === this._current,
+                repository,
+            })),
+            { placeHolder: 'Select a repository' },
+        );
+        if (picked) {
+            this.select(picked.repository);
+        }
+    }
+
+    // The innermost repository containing a file
+    getRepositoryForPath(fsPath: string): Repository | undefined {
+        return this._repositories
+            .filter((r) => {
+                const relative = path.relative(r.root, fsPath);
+                return !relative.startsWith('..') && !path.isAbsolute(relative);
+            })
+            .sort((a, b) => b.root.length - a.root.length)[0];
+    }
+
+    // Reads the directories asynchronously, as large workspaces would otherwise block the extension host
+    private async findNestedRepositories(dir: string, depth: number): Promise<string[]> {
+        if (depth > MAX_SCAN_DEPTH) {
+            return [];
+        }
+
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+
+        // A .git file is a worktree or submodule pointing at its real git directory
+        const found = entries.some((e) => e.name === '.git') ? [dir] : [];
+        const nested = await Promise.all(
+            entries
+                .filter((e) => e.isDirectory() && !e.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(e.name))
+                .map((e) => this.findNestedRepositories(path.join(dir, e.name), depth + 1)),
+        );
+        return found.concat(...nested);
+    }
+
+    private updateWatchers() {
+        const gitDirs = new Set(this._repositories.map((r) => r.gitDir));
+        for (const [gitDir, watcher] of this._watchers) {
+            if (!gitDirs.has(gitDir)) {
+                watcher.dispose();
+                this._watchers.delete(gitDir);
+            }
+        }
+
+        for (const repository of this._repositories) {
+            if (this._watchers.has(repository.gitDir)) {
+                continue;
+            }
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(repository.gitDir), '**'),
+            );
+            const fire = (uri: vscode.Uri) => {
+                // Taken and released around every index update, including ones that change nothing; an
+                // actual update changes the index itself
+                if (path.basename(uri.fsPath) === 'index.lock') {
+                    return;
+                }
+                const changed = this._repositories.find((r) => r.gitDir === repository.gitDir);
+                if (changed) {
+                    this._onDidChangeState.fire(changed);
+                }
+            };
+            watcher.onDidChange(fire);
+            watcher.onDidCreate(fire);
+            watcher.onDidDelete(fire);
+            this._watchers.set(repository.gitDir, watcher);
+        }
+
+        const roots = new Set(this._repositories.map((r) => r.root));
+        for (const [root, watcher] of this._workingTreeWatchers) {
+            if (!roots.has(root)) {
+                watcher.dispose();
+                this._workingTreeWatchers.delete(root);
+            }
+        }
+
+        for (const repository of this._repositories) {
+            if (this._workingTreeWatchers.has(repository.root)) {
+                continue;
+            }
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(repository.root), '**'),
+            );
+            const fire = (uri: vscode.Uri) => {
+                // Changes under .git are reported as state changes
+                const changed = this._repositories.find((r) => r.root === repository.root);
+                if (changed && !`${uri.fsPath}${path.sep}`.startsWith(`${changed.gitDir}${path.sep}`)) {
+                    this._onDidChangeWorkingTree.fire(changed);
+                }
+            };
+            watcher.onDidChange(fire);
+            watcher.onDidCreate(fire);
+            watcher.onDidDelete(fire);
+            this._workingTreeWatchers.set(repository.root, watcher);
+        }
+    }
+
+    private getTopLevel(cwd: string): Promise<string | null> {
+        return runGit(cwd, ['rev-parse', '--show-toplevel']).then(
+            ({ stdout }) => path.normalize(stdout.trim()),
+            () => null,
+        );
+    }
+
+    private getGitDir(cwd: string): Promise<string | null> {
+        return runGit(cwd, ['rev-parse', '--absolute-git-dir']).then(
+            ({ stdout }) => path.normalize(stdout.trim()),
+            () => null,
+        );
+    }
+
+    dispose() {
+        this._watchers.forEach((watcher) => watcher.dispose());
+        this._workingTreeWatchers.forEach((watcher) => watcher.dispose());
+        this._disposables.forEach((d) => d.dispose());
+        this._onDidChangeRepositories.dispose();
+        this._onDidChangeCurrent.dispose();
+        this._onDidChangeState.dispose();
+        this._onDidChangeWorkingTree.dispose();
+    }
+}
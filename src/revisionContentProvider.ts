@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { runGit } from './gitRunner';
+
+export const REVISION_SCHEME = 'git-lean';
+
+interface RevisionQuery {
+    root: string;
+    // Relative to root, with forward slashes as git expects
+    path: string;
+    ref: string;
+}
+
+// A read-only document with a file's contents at a revision. The URI keeps the file's own path, so
+// editors pick the language from its extension and show its name.
+export function toRevisionUri(root: string, filePath: string, ref: string): vscode.Uri {
+    const query: RevisionQuery = { root, path: filePath, ref };
+    return vscode.Uri.file(path.join(root, filePath)).with({ scheme: REVISION_SCHEME, query: JSON.stringify(query) });
+}
+
+export class RevisionContentProvider implements vscode.TextDocumentContentProvider {
+    // A file that does not exist at the revision, as on the old side of an added file, is empty
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const { root, path: filePath, ref } = JSON.parse(uri.query) as RevisionQuery;
+        try {
+            const { stdout } = await runGit(root, ['show', `${ref}:${filePath}`]);
+            return stdout;
+        } catch {
+            return '';
+        }
+    }
+}
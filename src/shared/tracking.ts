@@ -0,0 +1,19 @@
+import { UpstreamTracking } from './types';
+
+// How the extension and the graph webview show a branch's upstream. Both bundle this file, so it may
+// import nothing but the shared types.
+
+// Counts as shown next to a branch: ↑ commits to push, ↓ commits to pull, ⚠ when the upstream is gone
+export function formatTracking(tracking: UpstreamTracking): string {
+    if (tracking.gone) {
+        return '⚠';
+    }
+    return [tracking.ahead && `↑${tracking.ahead}`, tracking.behind && `↓${tracking.behind}`].filter(Boolean).join(' ');
+}
+
+// Tooltip for the counts
+export function describeTracking(tracking: UpstreamTracking): string {
+    return tracking.gone
+        ? `The upstream ${tracking.upstream} no longer exists`
+        : `Tracks ${tracking.upstream}: ${tracking.ahead} ahead, ${tracking.behind} behind`;
+}
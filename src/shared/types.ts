@@ -0,0 +1,241 @@
+// Types exchanged between the extension and its webviews. Both tsconfigs include this file, so it must
+// hold types only: the webview bundles cannot load extension code, and the extension cannot load React.
+
+export interface GitCommit {
+    hash: string;
+    shortHash: string;
+    message: string;
+    date: string;
+    author: string;
+    parents: string[];
+    refs: string[];
+    // Lines changed in the path the log is limited to, if any
+    fileStats?: { added: number; removed: number; path?: string };
+}
+
+export interface GitLogFilters {
+    message?: string;
+    author?: string;
+    hashPrefix?: string;
+    // Dates as YYYY-MM-DD, both inclusive
+    since?: string;
+    until?: string;
+    path?: string;
+    // Follow renames of path, which must then be a single file
+    follow?: boolean;
+}
+
+export interface WorkingTreeChange {
+    path: string;
+    // Original path of a renamed or copied file
+    oldPath?: string;
+    // Status letter from git status: M, A, D, R, C or T; ? for untracked and U for conflicted files
+    status: string;
+}
+
+export interface WorkingTreeStatus {
+    staged: WorkingTreeChange[];
+    unstaged: WorkingTreeChange[];
+    // The commit an amend replaces; null before the first commit
+    head: { hash: string; message: string } | null;
+}
+
+export interface GitStash {
+    // Selector such as stash@{0}; shifts as stashes are added and dropped
+    ref: string;
+    hash: string;
+    // The commit HEAD was at when the changes were stashed
+    base: string;
+    // Reflog subject, e.g. "On main: message" or "WIP on main: abc1234 subject"
+    message: string;
+    author: string;
+    date: string;
+}
+
+export type StashAction = 'applyStash' | 'popStash' | 'dropStash' | 'renameStash' | 'createBranchFromStash';
+
+export interface UpstreamTracking {
+    // Short name of the remote-tracking branch, e.g. origin/main
+    upstream: string;
+    ahead: number;
+    behind: number;
+    // The upstream is configured but its remote-tracking branch no longer exists
+    gone: boolean;
+}
+
+export type OperationKind = 'rebase' | 'merge' | 'cherryPick' | 'revert';
+export type OperationAction = 'continue' | 'skip' | 'abort';
+
+// A rebase, merge, cherry-pick or revert that stopped before finishing
+export interface OperationState {
+    kind: OperationKind;
+    // Branch being rebased
+    branch?: string;
+    // Position in a rebase, 1-based
+    step?: number;
+    total?: number;
+    // Commits a cherry-pick or revert of several commits still has to apply, the current one included
+    remaining?: number;
+    // The commit being applied or merged
+    commit?: { hash: string; subject: string };
+    // Paths with unresolved conflicts, relative to the repository root
+    conflicts: string[];
+}
+
+// Messages exchanged with the graph webview
+
+export type GraphHostMessage =
+    | { command: 'setCommits'; commits: GitCommit[]; hasMore: boolean }
+    | { command: 'appendCommits'; skip: number; commits: GitCommit[]; hasMore: boolean }
+    // Answers the search with the same requestId
+    | { command: 'searchResults'; requestId: number; hashes: string[]; truncated: boolean }
+    | { command: 'setHistoryPath'; path: string | null }
+    | { command: 'setSelectedRefs'; refs: string[] }
+    | { command: 'setOperation'; operation: OperationState | null }
+    | { command: 'setWorkingTree'; workingTree: WorkingTreeStatus | null }
+    | { command: 'setStashes'; stashes: GitStash[] }
+    | { command: 'setHeadTracking'; tracking: UpstreamTracking | null }
+    | { command: 'revealCommit'; hash: string };
+
+export type SingleCommitAction =
+    | 'copyHash'
+    | 'cherryPick'
+    | 'revertCommit'
+    | 'resetToCommit'
+    | 'createTag'
+    | 'checkoutCommit';
+export type RangeCommitAction = 'squashCommits' | 'cherryPickRange' | 'interactiveRebase';
+export type WorkingTreeFileAction = 'stageFiles' | 'unstageFiles' | 'discardChanges';
+
+export type GraphWebviewMessage =
+    | { command: 'ready' }
+    | { command: 'refresh' }
+    | { command: 'loadMore'; skip: number; untilHash?: string }
+    | { command: 'search'; requestId: number; filters: GitLogFilters }
+    | { command: 'editCommitMessage'; commitHash: string; newMessage: string }
+    | { command: SingleCommitAction; commitHash: string }
+    | { command: 'showCommitDetails'; commitHash: string; path?: string }
+    | { command: RangeCommitAction; hashes: string[]; parentHash: string }
+    | { command: 'compareCommits'; left: string; right: string }
+    | { command: 'operationAction'; action: OperationAction }
+    | { command: 'openFile'; path: string }
+    | { command: WorkingTreeFileAction; paths: string[] }
+    | { command: 'commitChanges'; message: string; amend: boolean }
+    | { command: 'stashChanges' }
+    | { command: StashAction; ref: string };
+
+export interface ComparedFile {
+    path: string;
+    // Original path of a renamed or copied file
+    oldPath?: string;
+    // Status letter from git diff: M, A, D, R, C or T
+    status: string;
+    added: number;
+    removed: number;
+    binary: boolean;
+}
+
+// Messages exchanged with the compare webview
+
+export type CompareHostMessage = {
+    command: 'setComparison';
+    leftLabel: string;
+    rightLabel: string;
+    threeDot: boolean;
+    base: string;
+    files: ComparedFile[];
+};
+
+export type CompareWebviewMessage =
+    | { command: 'ready' }
+    | { command: 'setThreeDot'; threeDot: boolean }
+    | { command: 'openDiff'; file: ComparedFile };
+
+// How commit details show diffs; remembered across panels
+export interface DiffOptions {
+    layout: 'unified' | 'split';
+    whitespace: 'show' | 'ignoreChange' | 'ignoreAll';
+}
+
+// The parent (1-based) a merge commit is diffed against, or all of them at once
+export type DiffParent = number | 'combined';
+
+export type FileStatus = 'added' | 'deleted' | 'renamed' | 'copied' | 'modified';
+
+// A file changed by the commit, listed before its diff is loaded
+export interface CommitFile {
+    filePath: string;
+    // Differs from filePath for renames and copies
+    oldPath: string;
+    status: FileStatus;
+    // Percentage, for renames and copies
+    similarity?: number;
+    binary: boolean;
+    // Set when the mode changed, or for added and deleted files
+    oldMode?: string;
+    newMode?: string;
+    added: number;
+    removed: number;
+}
+
+export interface CommitDetailsData {
+    fullHash: string;
+    authorEmail: string;
+    authorName: string;
+    authorDate: string;
+    commitDate: string;
+    subject: string;
+    body: string;
+    parents: string[];
+    // Only set for merge commits
+    parent?: DiffParent;
+    files: CommitFile[];
+    focusPath?: string;
+    diffOptions: DiffOptions;
+}
+
+// Why a file's diff is not shown: it is larger than the panel loads, or git failed
+export type DiffFailure = 'tooLarge' | 'failed';
+
+// Messages exchanged with the commit details webview
+
+export type CommitDetailsHostMessage =
+    | { command: 'setFiles'; files: CommitFile[] }
+    | { command: 'setFileDiff'; path: string; patch: string }
+    | { command: 'setFileDiffFailed'; path: string; failure: DiffFailure }
+    // children is null when the commit has too many descendants to look for them
+    | { command: 'setRelations'; children: string[] | null; branches: string[]; tags: string[] }
+    | { command: 'setRelationsFailed' };
+
+export type CommitDetailsMessage =
+    | { command: 'ready' }
+    | { command: 'showCommit'; hash: string }
+    | { command: 'revealInGraph' }
+    | { command: 'setDiffOptions'; options: DiffOptions }
+    | { command: 'setParent'; parent: DiffParent }
+    | { command: 'loadFileDiff'; path: string; oldPath: string }
+    | { command: 'openDiff'; path: string; oldPath: string }
+    | { command: 'openFileAtRevision'; path: string; deleted: boolean }
+    | { command: 'compareWithWorkingTree'; path: string };
+
+export type RebaseAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop' | 'edit';
+
+export interface RebaseEntry {
+    hash: string;
+    shortHash: string;
+    subject: string;
+    // Full message, which reword and squash commits are given
+    message: string;
+    action: RebaseAction;
+}
+
+export interface RebaseEditorData {
+    upstreamLabel: string;
+    // Oldest first, in the order git applies them
+    entries: RebaseEntry[];
+    // Merge commits on the branch; the rebase leaves them out and replays the commits they merged
+    merges: number;
+}
+
+// Messages from the rebase editor webview
+export type RebaseEditorMessage = { command: 'start'; entries: RebaseEntry[] } | { command: 'cancel' };
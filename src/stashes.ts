@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import { validateBranchName } from './branches';
+import { GitError, runGit, showGitError } from './gitRunner';
+import { GitStash, StashAction } from './shared/types';
+
+export async function getStashes(cwd: string): Promise<GitStash[]> {
+    let stdout: string;
+    try {
+        ({ stdout } = await runGit(cwd, ['stash', 'list', '--format=%gd%x00%H%x00%P%x00%an%x00%ai%x00%gs']));
+    } catch {
+        return [];
+    }
+
+    return stdout
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+            const [ref, hash, parents, author, date, message] = line.split('\0');
+            return { ref, hash, base: parents.split(' ')[0], message, author, date: new Date(date).toLocaleString() };
+        });
+}
+
+// Stashes the local changes, asking for a message and whether to include untracked files and keep
+// the staged changes in place
+export async function stashChanges(cwd: string) {
+    let stdout: string;
+    try {
+        ({ stdout } = await runGit(cwd, ['--no-optional-locks', 'status', '--porcelain']));
+    } catch (error) {
+        showGitError('Failed to read the working tree status', error);
+        return;
+    }
+    if (!stdout.trim()) {
+        vscode.window.showInformationMessage('There are no local changes to stash');
+        return;
+    }
+
+    const message = await vscode.window.showInputBox({
+        prompt: 'Stash message',
+        placeHolder: 'Optional; defaults to the last commit',
+    });
+    if (message === undefined) {
+        return;
+    }
+
+    const options = await vscode.window.showQuickPick(
+        [
+            { label: 'Include untracked files', value: '--include-untracked' },
+            { label: 'Keep staged changes', description: 'Leave the index as it is', value: '--keep-index' },
+        ],
+        { placeHolder: 'Stash options', canPickMany: true },
+    );
+    if (!options) {
+        return;
+    }
+
+    const args = ['stash', 'push', ...options.map((o) => o.value)];
+    if (message.trim()) {
+        args.push('-m', message.trim());
+    }
+    try {
+        await runGit(cwd, args);
+    } catch (error) {
+        showGitError('Failed to stash the changes', error);
+        return;
+    }
+    vscode.window.showInformationMessage('Changes stashed');
+}
+
+// Applies a stash to the working tree; pop also drops it, unless the changes conflict
+export async function applyStash(cwd: string, ref: string, pop: boolean) {
+    try {
+        await runGit(cwd, ['stash', pop ? 'pop' : 'apply', ref]);
+    } catch (error) {
+        // Changes that did not conflict are in place; the stash is kept either way
+        if (error instanceof GitError && error.kind === 'conflict') {
+            vscode.window.showWarningMessage(
+                `${ref} was applied with conflicts. Resolve them in the conflicted files; the stash was kept.`,
+            );
+            return;
+        }
+        showGitError(pop ? 'Failed to pop the stash' : 'Failed to apply the stash', error);
+        return;
+    }
+    vscode.window.showInformationMessage(pop ? `Popped ${ref}` : `Applied ${ref}`);
+}
+
+export async function dropStash(cwd: string, ref: string) {
+    const confirm = await vscode.window.showWarningMessage(
+        `Drop ${ref}? Its changes will be lost.`,
+        { modal: true },
+        'Drop',
+    );
+    if (!confirm) {
+        return;
+    }
+    try {
+        await runGit(cwd, ['stash', 'drop', ref]);
+    } catch (error) {
+        showGitError('Failed to drop the stash', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Dropped ${ref}`);
+}
+
+// Git has no rename: the same stash commit is stored again with the new message, which makes it
+// stash@{0}, and the old entry is dropped
+export async function renameStash(cwd: string, ref: string) {
+    const stash = (await getStashes(cwd)).find((s) => s.ref === ref);
+    if (!stash) {
+        return;
+    }
+    const prefix = stash.message.match(/^(?:WIP on|On) ([^:]+): /);
+    const current = prefix ? stash.message.substring(prefix[0].length) : stash.message;
+
+    const message = await vscode.window.showInputBox({
+        prompt: `Rename ${ref}`,
+        value: current,
+        validateInput: (value) => (value.trim() ? null : 'Stash message cannot be empty'),
+    });
+    if (!message || message.trim() === current) {
+        return;
+    }
+
+    const index = parseInt(ref.match(/\{(\d+)\}/)?.[1] ?? '0', 10);
+    try {
+        const newMessage = prefix ? `On ${prefix[1]}: ${message.trim()}` : message.trim();
+        await runGit(cwd, ['stash', 'store', '-m', newMessage, stash.hash]);
+        await runGit(cwd, ['stash', 'drop', `stash@{${index + 1}}`]);
+    } catch (error) {
+        showGitError('Failed to rename the stash', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Renamed ${ref}; it is now stash@{0}`);
+}
+
+// Checks out a new branch at the commit the stash was made on and pops the stash onto it
+export async function createBranchFromStash(cwd: string, ref: string) {
+    const branchName = await vscode.window.showInputBox({
+        prompt: `Create new branch from ${ref}`,
+        placeHolder: 'New branch name',
+        validateInput: validateBranchName,
+    });
+    if (!branchName) {
+        return;
+    }
+    try {
+        await runGit(cwd, ['stash', 'branch', branchName, ref]);
+    } catch (error) {
+        showGitError('Failed to create a branch from the stash', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Created and switched to branch '${branchName}'`);
+}
+
+export function runStashAction(cwd: string, action: StashAction, ref: string) {
+    switch (action) {
+        case 'applyStash':
+            return applyStash(cwd, ref, false);
+        case 'popStash':
+            return applyStash(cwd, ref, true);
+        case 'dropStash':
+            return dropStash(cwd, ref);
+        case 'renameStash':
+            return renameStash(cwd, ref);
+        case 'createBranchFromStash':
+            return createBranchFromStash(cwd, ref);
+    }
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { runGit, showGitError } from './gitRunner';
+import { validateRefName } from './refNames';
+import { pickRemote, withProgress } from './remotes';
+
+export interface GitTag {
+    name: string;
+    // The commit the tag points at
+    hash: string;
+    // Message of an annotated tag; undefined for a lightweight one
+    message?: string;
+    date: string;
+}
+
+export type TagSort = 'version' | 'date';
+
+const SORT_KEYS: Record<TagSort, string> = {
+    version: '-v:refname',
+    date: '-creatordate',
+};
+
+// Newest first either way
+export async function getTags(cwd: string, sort: TagSort): Promise<GitTag[]> {
+    let stdout: string;
+    try {
+        ({ stdout } = await runGit(cwd, [
+            'for-each-ref',
+            'refs/tags',
+            `--sort=${SORT_KEYS[sort]}`,
+            '--format=%(refname:short)%00%(objecttype)%00%(objectname)%00%(*objectname)%00%(creatordate:iso)%00%(contents:subject)',
+        ]));
+    } catch {
+        return [];
+    }
+
+    return stdout
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+            const [name, type, object, peeled, date, subject] = line.split('\0');
+            const annotated = type === 'tag';
+            return {
+                name,
+                hash: annotated ? peeled : object,
+                message: annotated ? subject : undefined,
+                date: new Date(date).toLocaleString(),
+            };
+        });
+}
+
+// Tags a commit, asking for the name and whether the tag is annotated with a message
+export async function createTag(cwd: string, commitHash: string) {
+    const name = await vscode.window.showInputBox({
+        prompt: `Create tag at ${commitHash.substring(0, 7)}`,
+        placeHolder: 'Tag name',
+        validateInput: (value) => validateRefName('Tag', value),
+    });
+    if (!name) {
+        return;
+    }
+
+    const kind = await vscode.window.showQuickPick(
+        [
+            { label: 'Lightweight', description: 'A name for the commit', annotated: false },
+            { label: 'Annotated', description: 'With a message, tagger and date', annotated: true },
+        ],
+        { placeHolder: 'Tag type' },
+    );
+    if (!kind) {
+        return;
+    }
+
+    const args = ['tag'];
+    if (kind.annotated) {
+        const message = await vscode.window.showInputBox({
+            prompt: `Message for tag '${name}'`,
+            validateInput: (value) => (value.trim() ? null : 'An annotated tag needs a message'),
+        });
+        if (!message) {
+            return;
+        }
+        args.push('-a', '-m', message);
+    }
+    try {
+        await runGit(cwd, [...args, '--', name, commitHash]);
+    } catch (error) {
+        showGitError('Failed to create tag', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Created tag '${name}'`);
+}
+
+export async function deleteTag(cwd: string, name: string) {
+    const confirm = await vscode.window.showWarningMessage(
+        `Are you sure you want to delete tag '${name}'?`,
+        'Yes',
+        'No',
+    );
+    if (confirm !== 'Yes') {
+        return;
+    }
+    try {
+        await runGit(cwd, ['tag', '-d', '--', name]);
+    } catch (error) {
+        showGitError('Failed to delete tag', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Deleted tag '${name}'`);
+}
+
+export async function pushTag(cwd: string, name: string) {
+    const remote = await pickRemote(cwd, `Push tag '${name}' to`);
+    if (!remote) {
+        return;
+    }
+    try {
+        await withProgress(`Pushing tag '${name}' to ${remote}`, () =>
+            runGit(cwd, ['push', remote, `refs/tags/${name}`]),
+        );
+    } catch (error) {
+        showGitError('Failed to push tag', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Pushed tag '${name}' to ${remote}`);
+}
+
+// Deletes the tag from a remote; the local tag is kept
+export async function deleteRemoteTag(cwd: string, name: string) {
+    const remote = await pickRemote(cwd, `Delete tag '${name}' from`);
+    if (!remote) {
+        return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete tag '${name}' from ${remote}? Others may already have fetched it.`,
+        { modal: true },
+        'Delete',
+    );
+    if (!confirm) {
+        return;
+    }
+    try {
+        await withProgress(`Deleting tag '${name}' from ${remote}`, () =>
+            runGit(cwd, ['push', remote, '--delete', `refs/tags/${name}`]),
+        );
+    } catch (error) {
+        showGitError('Failed to delete remote tag', error);
+        return;
+    }
+    vscode.window.showInformationMessage(`Deleted tag '${name}' from ${remote}`);
+}
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { deleteBranch } from '../branches';
+import { commit, createTestDir, git } from './repo';
+import { answerNext, resetFake, shownMessages } from './vscodeFake';
+
+suite('deleteBranch', () => {
+    let tmpDir: string;
+    let repo: string;
+
+    const branchExists = (name: string) => git(repo, 'branch', '--list', name) !== '';
+
+    suiteSetup(() => {
+        tmpDir = createTestDir();
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    setup(() => {
+        resetFake();
+        repo = fs.mkdtempSync(path.join(tmpDir, 'case-'));
+        git(repo, 'init', '-q', '-b', 'main');
+        commit(repo, 'a.txt', 'first');
+    });
+
+    test('deletes a merged branch after one confirmation', async () => {
+        git(repo, 'branch', 'done');
+        answerNext('Yes');
+
+        await deleteBranch(repo, 'done');
+
+        assert.strictEqual(branchExists('done'), false);
+        assert.strictEqual(shownMessages.filter((m) => m.kind === 'warning').length, 1);
+    });
+
+    test('asks again before deleting a branch that is not merged', async () => {
+        git(repo, 'checkout', '-q', '-b', 'topic');
+        commit(repo, 'b.txt', 'topic work');
+        git(repo, 'checkout', '-q', 'main');
+
+        answerNext('Yes', undefined);
+        await deleteBranch(repo, 'topic');
+        assert.strictEqual(branchExists('topic'), true);
+
+        answerNext('Yes', 'Force Delete');
+        await deleteBranch(repo, 'topic');
+        assert.strictEqual(branchExists('topic'), false);
+    });
+
+    test('counts a branch merged into its upstream as merged', async () => {
+        git(repo, 'checkout', '-q', '-b', 'topic');
+        commit(repo, 'b.txt', 'topic work');
+        git(repo, 'branch', 'local-topic', '--track', 'topic');
+        git(repo, 'checkout', '-q', 'main');
+        answerNext('Yes');
+
+        await deleteBranch(repo, 'local-topic');
+
+        assert.strictEqual(branchExists('local-topic'), false);
+    });
+});
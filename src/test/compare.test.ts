@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { parseNumstat } from '../compare';
+
+suite('parseNumstat', () => {
+    test('reads the counts of each file', () => {
+        const stats = parseNumstat('3\t1\ta.txt\x002\t0\tdir/b.txt\x00');
+        assert.deepStrictEqual(Object.fromEntries(stats), {
+            'a.txt': { added: 3, removed: 1, binary: false },
+            'dir/b.txt': { added: 2, removed: 0, binary: false },
+        });
+    });
+
+    test('keys a rename by its new path', () => {
+        const stats = parseNumstat('1\t1\t\x00old.txt\x00new.txt\x004\t0\tc.txt\x00');
+        assert.deepStrictEqual(Object.fromEntries(stats), {
+            'new.txt': { added: 1, removed: 1, binary: false },
+            'c.txt': { added: 4, removed: 0, binary: false },
+        });
+    });
+
+    test('marks binary files', () => {
+        assert.deepStrictEqual(parseNumstat('-\t-\timage.png\x00').get('image.png'), {
+            added: 0,
+            removed: 0,
+            binary: true,
+        });
+    });
+
+    test('skips the entries of --raw output', () => {
+        const raw = ':100644 100644 1111111 2222222 M\x00a.txt\x00';
+        assert.deepStrictEqual([...parseNumstat(`${raw}5\t2\ta.txt\x00`).keys()], ['a.txt']);
+    });
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { GitError, runGit } from '../gitRunner';
+import { commit, createTestDir, git } from './repo';
+
+suite('runGit', () => {
+    let repo: string;
+
+    suiteSetup(() => {
+        repo = createTestDir();
+        git(repo, 'init', '-q', '-b', 'main');
+        commit(repo, 'a.txt', 'first');
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    test('rejects with the kind of failure', async () => {
+        await assert.rejects(runGit(repo, ['rev-parse', 'missing']), (error) => {
+            assert.ok(error instanceof GitError);
+            assert.strictEqual(error.kind, 'unknown');
+            assert.strictEqual(error.exitCode, 128);
+            return true;
+        });
+    });
+
+    test('rejects output over maxBuffer as too large', async () => {
+        await assert.rejects(runGit(repo, ['log', '-p'], { maxBuffer: 16 }), (error) => {
+            assert.ok(error instanceof GitError);
+            assert.strictEqual(error.kind, 'outputTooLarge');
+            return true;
+        });
+    });
+});
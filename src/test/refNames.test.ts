@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { validateRefName } from '../refNames';
+
+suite('validateRefName', () => {
+    test('accepts a usual tag name', () => {
+        assert.strictEqual(validateRefName('Tag', 'v1.2.0'), null);
+        assert.strictEqual(validateRefName('Tag', 'release/2024-05'), null);
+    });
+
+    test('refuses an empty name', () => {
+        assert.strictEqual(validateRefName('Tag', '  '), 'Tag name cannot be empty');
+    });
+
+    test('refuses a name git would read as an option', () => {
+        assert.strictEqual(validateRefName('Tag', '-d'), "Tag name cannot start with '-'");
+        assert.strictEqual(validateRefName('Tag', '--force'), "Tag name cannot start with '-'");
+    });
+
+    test('names the kind of ref in its messages', () => {
+        assert.strictEqual(validateRefName('Branch', '-b'), "Branch name cannot start with '-'");
+        assert.strictEqual(validateRefName('Branch', 'feature~1'), 'Invalid branch name');
+    });
+
+    test('refuses characters git does not allow in a ref', () => {
+        assert.strictEqual(validateRefName('Tag', 'a b'), 'Invalid tag name');
+        assert.strictEqual(validateRefName('Tag', 'a..b'), 'Invalid tag name');
+        assert.strictEqual(validateRefName('Tag', 'a:b'), 'Invalid tag name');
+    });
+});
@@ -0,0 +1,245 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fetch, getHeadTracking, getRemotes, parseTracking, pull, push } from '../remotes';
+import { commit, createTestDir, git } from './repo';
+import { answerNext, resetFake, shownMessages } from './vscodeFake';
+
+suite('parseTracking', () => {
+    test('returns nothing for a branch without an upstream', () => {
+        assert.strictEqual(parseTracking('', ''), undefined);
+    });
+
+    test('reads the ahead and behind counts', () => {
+        assert.deepStrictEqual(parseTracking('origin/main', 'ahead 2, behind 3'), {
+            upstream: 'origin/main',
+            ahead: 2,
+            behind: 3,
+            gone: false,
+        });
+        assert.deepStrictEqual(parseTracking('origin/main', 'behind 1'), {
+            upstream: 'origin/main',
+            ahead: 0,
+            behind: 1,
+            gone: false,
+        });
+    });
+
+    test('reads a branch in sync with its upstream', () => {
+        assert.deepStrictEqual(parseTracking('upstream/dev', ''), {
+            upstream: 'upstream/dev',
+            ahead: 0,
+            behind: 0,
+            gone: false,
+        });
+    });
+
+    test('reads an upstream that no longer exists', () => {
+        assert.deepStrictEqual(parseTracking('origin/old', 'gone'), {
+            upstream: 'origin/old',
+            ahead: 0,
+            behind: 0,
+            gone: true,
+        });
+    });
+});
+
+// A local repository and another clone, both with a local bare repository as origin
+suite('Remotes with a bare repository', () => {
+    let tmpDir: string;
+    let remote: string;
+    let local: string;
+    let other: string;
+
+    const messages = (kind: string) => shownMessages.filter((m) => m.kind === kind).map((m) => m.message);
+
+    suiteSetup(() => {
+        tmpDir = createTestDir();
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    setup(async () => {
+        resetFake();
+        const dir = fs.mkdtempSync(path.join(tmpDir, 'case-'));
+        remote = path.join(dir, 'remote.git');
+        local = path.join(dir, 'local');
+        other = path.join(dir, 'other');
+
+        git(dir, 'init', '-q', '--bare', '-b', 'main', remote);
+        git(dir, 'init', '-q', '-b', 'main', local);
+        git(local, 'remote', 'add', 'origin', remote);
+        commit(local, 'a.txt', 'first');
+        git(local, 'push', '-q', '-u', 'origin', 'main');
+        git(dir, 'clone', '-q', remote, other);
+    });
+
+    test('lists the configured remotes', async () => {
+        git(local, 'remote', 'add', 'mirror', remote);
+        assert.deepStrictEqual(await getRemotes(local), ['mirror', 'origin']);
+    });
+
+    test('push sends a new branch and makes the pushed branch its upstream', async () => {
+        git(local, 'checkout', '-q', '-b', 'topic');
+        const head = commit(local, 'b.txt', 'topic work');
+
+        await push(local, 'topic', false);
+
+        assert.strictEqual(git(remote, 'rev-parse', 'topic'), head);
+        assert.strictEqual(git(local, 'rev-parse', '--abbrev-ref', 'topic@{upstream}'), 'origin/topic');
+        assert.deepStrictEqual(messages('information'), ["Pushed 'topic'"]);
+    });
+
+    test('push of the current branch updates its upstream', async () => {
+        const head = commit(local, 'b.txt', 'second');
+
+        await push(local, undefined, false);
+
+        assert.strictEqual(git(remote, 'rev-parse', 'main'), head);
+        assert.deepStrictEqual(messages('error'), []);
+    });
+
+    test('push is rejected when the remote has commits that were not pulled', async () => {
+        const theirs = commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q');
+        commit(local, 'ours.txt', 'ours');
+
+        await push(local, 'main', false);
+
+        assert.strictEqual(git(remote, 'rev-parse', 'main'), theirs);
+        assert.strictEqual(messages('error').length, 1);
+        assert.match(messages('error')[0], /^Push failed: /);
+    });
+
+    test('force push replaces the remote branch once confirmed', async () => {
+        git(local, 'commit', '-q', '--amend', '-m', 'first, reworded');
+        const head = git(local, 'rev-parse', 'HEAD');
+        answerNext('Force Push');
+
+        await push(local, 'main', true);
+
+        assert.strictEqual(git(remote, 'rev-parse', 'main'), head);
+        assert.strictEqual(messages('warning').length, 1);
+    });
+
+    test('force push does nothing when not confirmed', async () => {
+        const before = git(remote, 'rev-parse', 'main');
+        git(local, 'commit', '-q', '--amend', '-m', 'first, reworded');
+        answerNext(undefined);
+
+        await push(local, 'main', true);
+
+        assert.strictEqual(git(remote, 'rev-parse', 'main'), before);
+        assert.deepStrictEqual(messages('information'), []);
+    });
+
+    test('force push keeps remote commits that were not fetched', async () => {
+        const theirs = commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q');
+        git(local, 'commit', '-q', '--amend', '-m', 'first, reworded');
+        answerNext('Force Push');
+
+        await push(local, 'main', true);
+
+        assert.strictEqual(git(remote, 'rev-parse', 'main'), theirs);
+        assert.match(messages('error')[0], /^Push failed: /);
+    });
+
+    test('fetch brings in new commits and prunes deleted branches', async () => {
+        git(local, 'push', '-q', 'origin', 'main:doomed');
+        git(local, 'fetch', '-q');
+        const theirs = commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q', 'origin', 'main', ':doomed');
+
+        await fetch(local, 'origin');
+
+        assert.strictEqual(git(local, 'rev-parse', 'origin/main'), theirs);
+        assert.strictEqual(git(local, 'branch', '-r', '--list', 'origin/doomed'), '');
+        assert.deepStrictEqual(messages('information'), ['Fetched origin']);
+    });
+
+    test('fetch of every remote', async () => {
+        const theirs = commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q');
+
+        await fetch(local);
+
+        assert.strictEqual(git(local, 'rev-parse', 'origin/main'), theirs);
+        assert.deepStrictEqual(messages('information'), ['Fetched all remotes']);
+    });
+
+    test('pull merges the upstream into the current branch', async () => {
+        const theirs = commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q');
+        const ours = commit(local, 'ours.txt', 'ours');
+        answerNext('Merge');
+
+        await pull(local);
+
+        assert.deepStrictEqual(git(local, 'log', '-1', '--format=%P').split(' '), [ours, theirs]);
+        assert.deepStrictEqual(messages('information'), ['Pulled successfully']);
+    });
+
+    test('pull rebases local commits onto the upstream', async () => {
+        const theirs = commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q');
+        commit(local, 'ours.txt', 'ours');
+        answerNext('Rebase');
+
+        await pull(local);
+
+        assert.strictEqual(git(local, 'rev-parse', 'HEAD~1'), theirs);
+        assert.strictEqual(git(local, 'log', '-1', '--format=%s'), 'ours');
+    });
+
+    test('pull of a branch without an upstream takes the same branch from the only remote', async () => {
+        const theirs = commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q');
+        git(local, 'branch', '--unset-upstream');
+        answerNext('Merge');
+
+        await pull(local);
+
+        assert.strictEqual(git(local, 'rev-parse', 'HEAD'), theirs);
+    });
+
+    test('pull stops when the mode is not chosen', async () => {
+        commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q');
+        const before = git(local, 'rev-parse', 'HEAD');
+        answerNext(undefined);
+
+        await pull(local);
+
+        assert.strictEqual(git(local, 'rev-parse', 'HEAD'), before);
+        assert.deepStrictEqual(shownMessages, []);
+    });
+
+    test('head tracking counts the commits to push and to pull', async () => {
+        commit(other, 'theirs.txt', 'theirs');
+        git(other, 'push', '-q');
+        commit(local, 'ours.txt', 'ours');
+        commit(local, 'more.txt', 'more');
+        git(local, 'fetch', '-q');
+
+        assert.deepStrictEqual(await getHeadTracking(local), {
+            upstream: 'origin/main',
+            ahead: 2,
+            behind: 1,
+            gone: false,
+        });
+    });
+
+    test('head tracking notices a deleted upstream and a detached HEAD', async () => {
+        git(local, 'checkout', '-q', '-b', 'topic');
+        git(local, 'push', '-q', '-u', 'origin', 'topic');
+        git(other, 'push', '-q', 'origin', ':topic');
+        git(local, 'fetch', '-q', '--prune');
+        assert.strictEqual((await getHeadTracking(local))?.gone, true);
+
+        git(local, 'checkout', '-q', '--detach');
+        assert.strictEqual(await getHeadTracking(local), null);
+    });
+});
@@ -0,0 +1,35 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Helpers for tests that run against throwaway repositories
+
+export function git(cwd: string, ...args: string[]): string {
+    return cp.execFileSync('git', args, { cwd, encoding: 'utf8' }).trim();
+}
+
+// Writes the message into the file and commits it; returns the new commit's hash
+export function commit(cwd: string, file: string, message: string): string {
+    fs.writeFileSync(path.join(cwd, file), `${message}\n`);
+    git(cwd, 'add', file);
+    git(cwd, 'commit', '-q', '-m', message);
+    return git(cwd, 'rev-parse', 'HEAD');
+}
+
+// A temporary directory for the suite's repositories. Keeps the user's and the system's git
+// configuration out of the tests, which the extension's git calls inherit through the environment.
+export function createTestDir(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-lean-test-'));
+    const globalConfig = path.join(dir, 'gitconfig');
+    fs.writeFileSync(globalConfig, '');
+    Object.assign(process.env, {
+        GIT_CONFIG_GLOBAL: globalConfig,
+        GIT_CONFIG_NOSYSTEM: '1',
+        GIT_AUTHOR_NAME: 'Test',
+        GIT_AUTHOR_EMAIL: 'test@example.com',
+        GIT_COMMITTER_NAME: 'Test',
+        GIT_COMMITTER_EMAIL: 'test@example.com',
+    });
+    return dir;
+}
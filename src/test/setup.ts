@@ -0,0 +1,8 @@
+import Module from 'module';
+
+// The modules under test import vscode, which only exists inside the editor; they get vscodeFake instead
+const resolver = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+const resolveFilename = resolver._resolveFilename;
+resolver._resolveFilename = function (this: unknown, request: string, ...rest: unknown[]) {
+    return resolveFilename.call(this, request === 'vscode' ? require.resolve('./vscodeFake') : request, ...rest);
+};
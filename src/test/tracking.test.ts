@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { describeTracking, formatTracking } from '../shared/tracking';
+
+suite('Tracking text', () => {
+    const tracking = { upstream: 'origin/main', ahead: 2, behind: 0, gone: false };
+
+    test('shows the counts that are not zero', () => {
+        assert.strictEqual(formatTracking(tracking), '↑2');
+        assert.strictEqual(formatTracking({ ...tracking, behind: 3 }), '↑2 ↓3');
+        assert.strictEqual(formatTracking({ ...tracking, ahead: 0 }), '');
+        assert.strictEqual(describeTracking(tracking), 'Tracks origin/main: 2 ahead, 0 behind');
+    });
+
+    test('warns about an upstream that no longer exists', () => {
+        const gone = { ...tracking, ahead: 0, gone: true };
+        assert.strictEqual(formatTracking(gone), '⚠');
+        assert.strictEqual(describeTracking(gone), 'The upstream origin/main no longer exists');
+    });
+});
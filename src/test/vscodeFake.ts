@@ -0,0 +1,53 @@
+// Stands in for the parts of the vscode API that the modules under test use, outside the editor. Tests
+// queue the answers the user would give to prompts, and read the messages that were shown.
+
+export interface ShownMessage {
+    kind: 'information' | 'warning' | 'error';
+    message: string;
+}
+
+export const shownMessages: ShownMessage[] = [];
+const answers: (string | undefined)[] = [];
+
+// Answers the next prompts in order: quick picks by item label, message boxes by button
+export function answerNext(...values: (string | undefined)[]) {
+    answers.push(...values);
+}
+
+export function resetFake() {
+    shownMessages.length = 0;
+    answers.length = 0;
+}
+
+function nextAnswer(prompt: string): string | undefined {
+    if (answers.length === 0) {
+        throw new Error(`Unexpected prompt: ${prompt}`);
+    }
+    return answers.shift();
+}
+
+type QuickPickItem = string | { label: string };
+
+export const ProgressLocation = { SourceControl: 1, Window: 10, Notification: 15 };
+
+export const window = {
+    createOutputChannel: () => ({ appendLine: () => undefined, show: () => undefined }),
+    showInformationMessage: async (message: string) => {
+        shownMessages.push({ kind: 'information', message });
+        return undefined;
+    },
+    showErrorMessage: async (message: string) => {
+        shownMessages.push({ kind: 'error', message });
+        return undefined;
+    },
+    showWarningMessage: async (message: string) => {
+        shownMessages.push({ kind: 'warning', message });
+        return nextAnswer(message);
+    },
+    showQuickPick: async <T extends QuickPickItem>(items: T[] | Promise<T[]>, options?: { placeHolder?: string }) => {
+        const label = nextAnswer(options?.placeHolder ?? 'quick pick');
+        return (await items).find((item) => (typeof item === 'string' ? item : item.label) === label);
+    },
+    withProgress: <T>(_options: unknown, task: (progress: { report: () => void }) => Promise<T>) =>
+        task({ report: () => undefined }),
+};
@@ -1,81 +1,281 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+    CommitDetailsData,
+    CommitDetailsHostMessage,
+    CommitDetailsMessage,
+    CommitFile,
+    DiffFailure,
+    DiffOptions,
+    DiffParent,
+} from '../../shared/types';
+import { vscode } from '../vscodeApi';
+import { markWordChanges, parseHunks, splitPatch, truncateHunks } from './diffLines';
+import { SplitDiff, UnifiedDiff } from './DiffTable';
+import { highlightHunks, languageForPath } from './syntax';
 
-interface FileDiff {
-    filePath: string;
-    added: number;
-    removed: number;
-    lines: string[];
+// Hunks longer than this show their first lines until the full diff is asked for
+const HUNK_LINE_LIMIT = 500;
+
+// Commits this small open with every diff expanded; in larger ones only the diffs opened are loaded
+const AUTO_EXPAND_FILES = 20;
+const AUTO_EXPAND_LINES = 2000;
+
+// Files with more changed lines than this are left to the diff editor rather than loaded
+const MAX_LOADED_LINES = 20000;
+
+// Branches and tags past this many are summed up
+const MAX_REFS_SHOWN = 20;
+
+interface CommitRelations {
+    // Null when there were too many later commits to look for them
+    children: string[] | null;
+    branches: string[];
+    tags: string[];
 }
 
-function parsePatch(patch: string): FileDiff[] {
-    const diffIdx = patch.indexOf('\ndiff --git ');
-    if (diffIdx < 0) {
-        return [];
-    }
+function postMessage(message: CommitDetailsMessage) {
+    vscode.postMessage(message);
+}
 
-    return patch
-        .slice(diffIdx + 1)
-        .split(/(?=^diff --git )/m)
-        .filter((s) => s.trim())
-        .map((section) => {
-            const lines = section.split('\n');
-            const match = lines[0].match(/^diff --git a\/(.*?) b\/(.*)$/);
-            const filePath = match ? match[2] : lines[0];
-            let added = 0,
-                removed = 0;
-            lines.forEach((line) => {
-                if (line.startsWith('+') && !line.startsWith('+++')) {
-                    added++;
-                }
-                if (line.startsWith('-') && !line.startsWith('---')) {
-                    removed++;
-                }
-            });
-            return { filePath, added, removed, lines };
-        });
+function isUnderPath(filePath: string, focusPath: string): boolean {
+    return focusPath === '.' || filePath === focusPath || filePath.startsWith(focusPath + '/');
+}
+
+// A button in a file's summary that does not also toggle the diff open or closed
+function FileAction({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <button
+            className="file-action"
+            title={title}
+            onClick={(e) => {
+                e.preventDefault();
+                onClick();
+            }}
+        >
+            {children}
+        </button>
+    );
 }
 
-function DiffLine({ line }: { line: string }) {
-    if (line.startsWith('@@')) {
-        return <span className="diff-line diff-hunk">{line}</span>;
+// Short labels for the summary, for whatever a plain modification would not show, each with the
+// status it is coloured by
+function fileBadges(diff: CommitFile): [string, string][] {
+    const badges: [string, string][] = [];
+    if (diff.status === 'added' || diff.status === 'deleted') {
+        badges.push([diff.status === 'added' ? 'Added' : 'Deleted', diff.status]);
+    } else if (diff.status === 'renamed' || diff.status === 'copied') {
+        const label = diff.status === 'renamed' ? 'Renamed' : 'Copied';
+        badges.push([diff.similarity !== undefined ? `${label} ${diff.similarity}%` : label, 'renamed']);
     }
-    if (line.startsWith('+')) {
-        return <span className="diff-line diff-add">{line}</span>;
+    if (diff.binary) {
+        badges.push(['Binary', 'other']);
     }
-    if (line.startsWith('-')) {
-        return <span className="diff-line diff-del">{line}</span>;
+    if (diff.oldMode && diff.newMode) {
+        badges.push([`Mode ${diff.oldMode} → ${diff.newMode}`, 'other']);
     }
-    return <span className="diff-line diff-ctx">{line}</span>;
+    return badges;
+}
+
+// Shown in place of the diff of a file without hunks
+function emptyDiffNote(diff: CommitFile): string {
+    if (diff.binary) {
+        return 'Binary file not shown.';
+    }
+    if (diff.oldMode && diff.newMode) {
+        return `File mode changed from ${diff.oldMode} to ${diff.newMode}.`;
+    }
+    switch (diff.status) {
+        case 'renamed':
+            return 'File renamed without changes.';
+        case 'copied':
+            return 'File copied without changes.';
+        case 'added':
+            return 'Empty file added.';
+        case 'deleted':
+            return 'Empty file deleted.';
+        default:
+            return 'No content changes.';
+    }
+}
+
+interface FileDiffBlockProps {
+    diff: CommitFile;
+    // The file's patch, once loaded
+    lines?: string[];
+    // Set instead of lines when the patch could not be loaded
+    failure?: DiffFailure;
+    layout: DiffOptions['layout'];
+    initiallyOpen: boolean;
+    focused: boolean;
+    onLoad: (diff: CommitFile) => void;
 }
 
-function FileDiffBlock({ diff }: { diff: FileDiff }) {
-    let inHunk = false;
-    const hunkLines = diff.lines.filter((line) => {
-        if (line.startsWith('@@')) {
-            inHunk = true;
+// Loads the file's diff when first opened
+function FileDiffBlock(props: FileDiffBlockProps) {
+    const { diff, lines, layout, initiallyOpen, focused, onLoad } = props;
+    const ref = useRef<HTMLDetailsElement>(null);
+    const [open, setOpen] = useState(initiallyOpen);
+    const [full, setFull] = useState(false);
+    const language = languageForPath(diff.filePath);
+    const failure = props.failure ?? (diff.added + diff.removed > MAX_LOADED_LINES ? 'tooLarge' : undefined);
+    const openDiff = () => postMessage({ command: 'openDiff', path: diff.filePath, oldPath: diff.oldPath });
+    const hunks = useMemo(() => {
+        if (!lines) {
+            return [];
+        }
+        // Word changes and highlighting are only worked out for the lines shown
+        const hunks = full ? parseHunks(lines) : truncateHunks(parseHunks(lines), HUNK_LINE_LIMIT);
+        markWordChanges(hunks);
+        if (language) {
+            highlightHunks(hunks, language);
         }
-        return inHunk;
-    });
+        return hunks;
+    }, [lines, full, language]);
+
+    useEffect(() => {
+        if (open && !lines && !failure && !diff.binary) {
+            onLoad(diff);
+        }
+    }, [open, lines, failure, diff, onLoad]);
+
+    useEffect(() => {
+        if (focused) {
+            ref.current?.scrollIntoView({ block: 'start' });
+        }
+    }, [focused]);
+
+    let content: React.ReactNode;
+    if (failure) {
+        content = (
+            <p className="diff-note">
+                {failure === 'tooLarge' ? 'Diff too large to show here.' : 'The diff failed to load.'}{' '}
+                <a
+                    href="#"
+                    onClick={(e) => {
+                        e.preventDefault();
+                        openDiff();
+                    }}
+                >
+                    Open in diff editor
+                </a>
+            </p>
+        );
+    } else if (diff.binary || (lines && hunks.length === 0)) {
+        content = <p className="diff-note">{emptyDiffNote(diff)}</p>;
+    } else if (!lines) {
+        content = <p className="diff-note">Loading diff...</p>;
+    } else if (layout === 'split') {
+        content = <SplitDiff hunks={hunks} syntax={!!language} onShowAll={() => setFull(true)} />;
+    } else {
+        content = <UnifiedDiff hunks={hunks} syntax={!!language} onShowAll={() => setFull(true)} />;
+    }
 
     return (
-        <details open>
+        <details ref={ref} open={open} onToggle={(e) => setOpen(e.currentTarget.open)}>
             <summary>
                 <span className="chevron">&#9658;</span>
-                <span className="file-name">{diff.filePath}</span>
+                <span
+                    className="file-name"
+                    title="Open the changes in the diff editor"
+                    onClick={(e) => {
+                        e.preventDefault();
+                        openDiff();
+                    }}
+                >
+                    {diff.oldPath !== diff.filePath ? `${diff.oldPath} → ${diff.filePath}` : diff.filePath}
+                </span>
+                {fileBadges(diff).map(([label, status]) => (
+                    <span key={label} className={`file-badge file-badge-${status}`}>
+                        {label}
+                    </span>
+                ))}
+                <span className="file-actions">
+                    <FileAction
+                        title="Open file at this revision"
+                        onClick={() =>
+                            postMessage({
+                                command: 'openFileAtRevision',
+                                path: diff.filePath,
+                                deleted: diff.status === 'deleted',
+                            })
+                        }
+                    >
+                        Open File
+                    </FileAction>
+                    {diff.status !== 'deleted' && (
+                        <FileAction
+                            title="Compare this revision with the working tree"
+                            onClick={() => postMessage({ command: 'compareWithWorkingTree', path: diff.filePath })}
+                        >
+                            Compare with Working Tree
+                        </FileAction>
+                    )}
+                </span>
                 <span className="file-stats">
                     {diff.added > 0 && <span className="added">+{diff.added} </span>}
                     {diff.removed > 0 && <span className="removed">-{diff.removed}</span>}
                 </span>
             </summary>
-            <pre className="diff-content">
-                {hunkLines.map((line, i) => (
-                    <DiffLine key={i} line={line} />
-                ))}
-            </pre>
+            <div className="diff-content">{content}</div>
         </details>
     );
 }
 
+// Opens the details of another commit
+function CommitLink({ hash }: { hash: string }) {
+    return (
+        <a
+            href="#"
+            className="commit-link"
+            title={`Show details of ${hash}`}
+            onClick={(e) => {
+                e.preventDefault();
+                postMessage({ command: 'showCommit', hash });
+            }}
+        >
+            {hash.substring(0, 7)}
+        </a>
+    );
+}
+
+// pending is shown until the hashes are known
+function CommitLinks({ hashes, none, pending = 'Loading...' }: { hashes?: string[]; none: string; pending?: string }) {
+    if (!hashes) {
+        return <span className="meta-value meta-empty">{pending}</span>;
+    }
+    if (hashes.length === 0) {
+        return <span className="meta-value meta-empty">{none}</span>;
+    }
+    return (
+        <span className="meta-value">
+            {hashes.map((hash) => (
+                <CommitLink key={hash} hash={hash} />
+            ))}
+        </span>
+    );
+}
+
+function RefList({ refs, className, pending }: { refs?: string[]; className: string; pending: string }) {
+    if (!refs) {
+        return <span className="meta-value meta-empty">{pending}</span>;
+    }
+    if (refs.length === 0) {
+        return <span className="meta-value meta-empty">None</span>;
+    }
+    return (
+        <span className="meta-value ref-list">
+            {refs.slice(0, MAX_REFS_SHOWN).map((ref) => (
+                <span key={ref} className={`ref-badge ${className}`}>
+                    {ref}
+                </span>
+            ))}
+            {refs.length > MAX_REFS_SHOWN && (
+                <span className="meta-empty">and {refs.length - MAX_REFS_SHOWN} more</span>
+            )}
+        </span>
+    );
+}
+
 interface CopyableProps {
     value: string;
     onCopy: (text: string) => void;
@@ -90,20 +290,63 @@ function Copyable({ value, onCopy, children }: CopyableProps) {
     );
 }
 
-export interface CommitDetailsData {
-    fullHash: string;
-    authorEmail: string;
-    authorName: string;
-    authorDate: string;
-    commitDate: string;
-    subject: string;
-    body: string;
-    patch: string;
-}
-
 export function CommitDetailsView({ data }: { data: CommitDetailsData }) {
-    const { fullHash, authorEmail, authorName, authorDate, commitDate, subject, body, patch } = data;
+    const { fullHash, authorEmail, authorName, authorDate, commitDate, subject, body, parents, focusPath } = data;
     const [toastVisible, setToastVisible] = useState(false);
+    const [files, setFiles] = useState(data.files);
+    // The patch lines of each file loaded so far, by path
+    const [fileDiffs, setFileDiffs] = useState<Record<string, string[]>>({});
+    const [diffFailures, setDiffFailures] = useState<Record<string, DiffFailure>>({});
+    const requested = useRef(new Set<string>());
+    const [relations, setRelations] = useState<CommitRelations | 'failed' | null>(null);
+    const [diffOptions, setDiffOptions] = useState(data.diffOptions);
+    const [parent, setParent] = useState(data.parent);
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent<CommitDetailsHostMessage>) => {
+            const message = event.data;
+            if (message.command === 'setFiles') {
+                // The diffs loaded for the previous options are stale; open blocks load theirs again
+                requested.current.clear();
+                setFileDiffs({});
+                setDiffFailures({});
+                setFiles(message.files);
+            } else if (message.command === 'setFileDiff') {
+                // The patch also holds the other side of a copy, when that file changed too
+                const sections = splitPatch(message.patch);
+                const section = sections.find((s) => s.filePath === message.path) ?? sections[0];
+                setFileDiffs((diffs) => ({ ...diffs, [message.path]: section?.lines ?? [] }));
+            } else if (message.command === 'setFileDiffFailed') {
+                setDiffFailures((failures) => ({ ...failures, [message.path]: message.failure }));
+            } else if (message.command === 'setRelations') {
+                setRelations({ children: message.children, branches: message.branches, tags: message.tags });
+            } else if (message.command === 'setRelationsFailed') {
+                setRelations('failed');
+            }
+        };
+        window.addEventListener('message', onMessage);
+        postMessage({ command: 'ready' });
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    const loadFileDiff = useCallback((file: CommitFile) => {
+        if (!requested.current.has(file.filePath)) {
+            requested.current.add(file.filePath);
+            postMessage({ command: 'loadFileDiff', path: file.filePath, oldPath: file.oldPath });
+        }
+    }, []);
+
+    const updateDiffOptions = (changes: Partial<DiffOptions>) => {
+        const options = { ...diffOptions, ...changes };
+        setDiffOptions(options);
+        postMessage({ command: 'setDiffOptions', options });
+    };
+
+    const changeParent = (value: string) => {
+        const selected: DiffParent = value === 'combined' ? 'combined' : parseInt(value, 10);
+        setParent(selected);
+        postMessage({ command: 'setParent', parent: selected });
+    };
 
     const formattedAuthorDate = authorDate ? new Date(authorDate).toLocaleString() : '';
     const formattedCommitDate = commitDate ? new Date(commitDate).toLocaleString() : '';
@@ -116,7 +359,15 @@ export function CommitDetailsView({ data }: { data: CommitDetailsData }) {
         });
     };
 
-    const diffs = parsePatch(patch);
+    const loadedRelations = relations === 'failed' ? null : relations;
+    const relationsPending = relations === 'failed' ? 'Not available' : 'Loading...';
+
+    // Opened from a file history: expand only the diffs of that path, if the commit touched it
+    const focusedFiles = focusPath
+        ? files.filter((f) => isUnderPath(f.filePath, focusPath) || isUnderPath(f.oldPath, focusPath))
+        : [];
+    const expandAll =
+        files.length <= AUTO_EXPAND_FILES && files.reduce((n, f) => n + f.added + f.removed, 0) <= AUTO_EXPAND_LINES;
 
     return (
         <>
@@ -125,9 +376,42 @@ export function CommitDetailsView({ data }: { data: CommitDetailsData }) {
 
             <div className="meta">
                 <span className="meta-label">Hash</span>
-                <Copyable value={fullHash} onCopy={copyToClipboard}>
-                    <code className="meta-value hash">{fullHash}</code>
-                </Copyable>
+                <span className="meta-value">
+                    <Copyable value={fullHash} onCopy={copyToClipboard}>
+                        <code className="hash">{fullHash}</code>
+                    </Copyable>
+                    <a
+                        href="#"
+                        className="meta-action"
+                        title="Scroll the Tree view to this commit and select it"
+                        onClick={(e) => {
+                            e.preventDefault();
+                            postMessage({ command: 'revealInGraph' });
+                        }}
+                    >
+                        Reveal in Graph
+                    </a>
+                </span>
+
+                <span className="meta-label">{parents.length > 1 ? 'Parents' : 'Parent'}</span>
+                <CommitLinks hashes={parents} none="None (root commit)" />
+
+                <span className="meta-label">Children</span>
+                <CommitLinks
+                    hashes={loadedRelations?.children ?? undefined}
+                    none="None"
+                    pending={loadedRelations ? 'Too many later commits to look through' : relationsPending}
+                />
+
+                <span className="meta-label">Branches</span>
+                <RefList refs={loadedRelations?.branches} className="ref-branch" pending={relationsPending} />
+
+                {loadedRelations && loadedRelations.tags.length > 0 && (
+                    <>
+                        <span className="meta-label">Tags</span>
+                        <RefList refs={loadedRelations.tags} className="ref-tag" pending={relationsPending} />
+                    </>
+                )}
 
                 <span className="meta-label">Author</span>
                 <Copyable value={`${authorName} <${authorEmail}>`} onCopy={copyToClipboard}>
@@ -151,12 +435,66 @@ export function CommitDetailsView({ data }: { data: CommitDetailsData }) {
                 )}
             </div>
 
-            <div className="section-title">Changed Files</div>
+            <div className="diff-header">
+                <div className="section-title">Changed Files</div>
+                <div className="diff-toolbar">
+                    {parent !== undefined && (
+                        <select
+                            className="parent-select"
+                            title="What the changes of this merge are shown against"
+                            value={String(parent)}
+                            onChange={(e) => changeParent(e.target.value)}
+                        >
+                            {parents.map((hash, i) => (
+                                <option key={hash} value={i + 1}>
+                                    Parent {i + 1} ({hash.substring(0, 7)})
+                                </option>
+                            ))}
+                            <option value="combined">Combined (changes differing from every parent)</option>
+                        </select>
+                    )}
+                    <button
+                        className={diffOptions.layout === 'unified' ? '' : 'secondary'}
+                        onClick={() => updateDiffOptions({ layout: 'unified' })}
+                    >
+                        Unified
+                    </button>
+                    <button
+                        className={diffOptions.layout === 'split' ? '' : 'secondary'}
+                        onClick={() => updateDiffOptions({ layout: 'split' })}
+                    >
+                        Split
+                    </button>
+                    <select
+                        value={diffOptions.whitespace}
+                        onChange={(e) => updateDiffOptions({ whitespace: e.target.value as DiffOptions['whitespace'] })}
+                    >
+                        <option value="show">Show whitespace changes</option>
+                        <option value="ignoreChange">Ignore changes in amount of whitespace</option>
+                        <option value="ignoreAll">Ignore all whitespace</option>
+                    </select>
+                </div>
+            </div>
 
-            {diffs.length === 0 ? (
-                <p className="no-changes">No diff available.</p>
+            {files.length === 0 ? (
+                <p className="no-changes">
+                    {parent === 'combined'
+                        ? 'No file of this merge differs from all of its parents.'
+                        : 'No diff available.'}
+                </p>
             ) : (
-                diffs.map((diff, i) => <FileDiffBlock key={i} diff={diff} />)
+                files.map((file) => (
+                    <FileDiffBlock
+                        key={file.filePath}
+                        diff={file}
+                        lines={fileDiffs[file.filePath]}
+                        failure={diffFailures[file.filePath]}
+                        layout={diffOptions.layout}
+                        initiallyOpen={focusedFiles.length > 0 ? focusedFiles.includes(file) : expandAll}
+                        focused={focusedFiles[0] === file}
+                        onLoad={loadFileDiff}
+                    />
+                ))
             )}
 
             <div id="copy-toast" className={toastVisible ? 'show' : ''}>
@@ -0,0 +1,176 @@
+import React from 'react';
+import { DiffHunk, DiffLine, DiffLineKind, toSplitRows } from './diffLines';
+
+const SIGNS: Record<DiffLineKind, string> = { context: ' ', added: '+', removed: '-' };
+const KIND_CLASSES: Record<DiffLineKind, string> = { context: 'diff-ctx', added: 'diff-add', removed: 'diff-del' };
+
+// Where each of the ranges starts and ends, in order
+function boundaries(ranges: [number, number, ...unknown[]][] | undefined, cuts: Set<number>) {
+    ranges?.forEach(([start, end]) => {
+        cuts.add(start);
+        cuts.add(end);
+    });
+}
+
+// The line's text, coloured by its syntax tokens, with the words that changed against its counterpart
+// highlighted over them
+function LineText({ line }: { line: DiffLine }) {
+    const { text, changes, tokens } = line;
+    let content: React.ReactNode = text;
+    if (changes?.length || tokens?.length) {
+        const cuts = new Set([0, text.length]);
+        boundaries(changes, cuts);
+        boundaries(tokens, cuts);
+        const offsets = [...cuts].sort((a, b) => a - b);
+
+        const parts: React.ReactNode[] = [];
+        let change = 0;
+        let token = 0;
+        for (let i = 0; i < offsets.length - 1; i++) {
+            const [start, end] = [offsets[i], offsets[i + 1]];
+            while (changes && change < changes.length && changes[change][1] <= start) {
+                change++;
+            }
+            while (tokens && token < tokens.length && tokens[token][1] <= start) {
+                token++;
+            }
+            const classes = [];
+            if (tokens && token < tokens.length && tokens[token][0] <= start) {
+                classes.push(`tok-${tokens[token][2]}`);
+            }
+            if (changes && change < changes.length && changes[change][0] <= start) {
+                classes.push('word-changed');
+            }
+            const segment = text.substring(start, end);
+            parts.push(
+                classes.length > 0 ? (
+                    <span key={i} className={classes.join(' ')}>
+                        {segment}
+                    </span>
+                ) : (
+                    segment
+                ),
+            );
+        }
+        content = parts;
+    }
+    return (
+        <>
+            {content}
+            {line.noNewlineAtEnd && (
+                <span className="no-newline" title="No newline at end of file">
+                    ⊘
+                </span>
+            )}
+        </>
+    );
+}
+
+function HunkHeader({ header, columns }: { header: string; columns: number }) {
+    return (
+        <tr className="diff-hunk">
+            <td colSpan={columns}>{header}</td>
+        </tr>
+    );
+}
+
+function TruncatedRow({ hidden, columns, onShowAll }: { hidden?: number; columns: number; onShowAll: () => void }) {
+    if (!hidden) {
+        return null;
+    }
+    return (
+        <tr className="diff-truncated">
+            <td colSpan={columns}>
+                {hidden} more {hidden === 1 ? 'line' : 'lines'} in this hunk.{' '}
+                <a
+                    href="#"
+                    onClick={(e) => {
+                        e.preventDefault();
+                        onShowAll();
+                    }}
+                >
+                    Show full diff
+                </a>
+            </td>
+        </tr>
+    );
+}
+
+interface DiffTableProps {
+    hunks: DiffHunk[];
+    // Marks tables whose lines are highlighted, which then take the editor's text colour
+    syntax: boolean;
+    // Shows the lines left out of long hunks
+    onShowAll: () => void;
+}
+
+export function UnifiedDiff({ hunks, syntax, onShowAll }: DiffTableProps) {
+    return (
+        <table className={`diff-table diff-unified${syntax ? ' diff-syntax' : ''}`}>
+            <tbody>
+                {hunks.map((hunk, h) => (
+                    <React.Fragment key={h}>
+                        <HunkHeader header={hunk.header} columns={3} />
+                        {hunk.lines.map((line, i) => (
+                            <tr key={i} className={KIND_CLASSES[line.kind]}>
+                                <td className="diff-number">{line.oldNumber}</td>
+                                <td className="diff-number">{line.newNumber}</td>
+                                <td className="diff-text">
+                                    <span className="diff-sign">{SIGNS[line.kind]}</span>
+                                    <LineText line={line} />
+                                </td>
+                            </tr>
+                        ))}
+                        <TruncatedRow hidden={hunk.hiddenLines} columns={3} onShowAll={onShowAll} />
+                    </React.Fragment>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+function SplitSide({ line, number }: { line?: DiffLine; number?: number }) {
+    if (!line) {
+        return (
+            <>
+                <td className="diff-number diff-blank" />
+                <td className="diff-text diff-blank" />
+            </>
+        );
+    }
+    return (
+        <>
+            <td className={`diff-number ${KIND_CLASSES[line.kind]}`}>{number}</td>
+            <td className={`diff-text ${KIND_CLASSES[line.kind]}`}>
+                <LineText line={line} />
+            </td>
+        </>
+    );
+}
+
+export function SplitDiff({ hunks, syntax, onShowAll }: DiffTableProps) {
+    return (
+        <table className={`diff-table diff-split${syntax ? ' diff-syntax' : ''}`}>
+            <colgroup>
+                <col className="diff-number-column" />
+                <col />
+                <col className="diff-number-column" />
+                <col />
+            </colgroup>
+            <tbody>
+                {hunks.map((hunk, h) => (
+                    <React.Fragment key={h}>
+                        <HunkHeader header={hunk.header} columns={4} />
+                        {toSplitRows(hunk.lines).map(({ left, right }, i) => (
+                            <tr key={i}>
+                                <SplitSide line={left} number={left?.oldNumber} />
+                                <SplitSide line={right} number={right?.newNumber} />
+                            </tr>
+                        ))}
+                        <TruncatedRow hidden={hunk.hiddenLines} columns={4} onShowAll={onShowAll} />
+                    </React.Fragment>
+                ))}
+            </tbody>
+        </table>
+    );
+}
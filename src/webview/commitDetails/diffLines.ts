@@ -0,0 +1,264 @@
+import { Token } from './syntax';
+
+export type DiffLineKind = 'context' | 'added' | 'removed';
+
+export interface DiffLine {
+    kind: DiffLineKind;
+    // Without the +, - or space prefix
+    text: string;
+    oldNumber?: number;
+    newNumber?: number;
+    // Character ranges [start, end) that differ from the line this one replaces or is replaced by
+    changes?: [number, number][];
+    // Syntax highlighting, when the file's language is known
+    tokens?: Token[];
+    noNewlineAtEnd?: boolean;
+}
+
+export interface DiffHunk {
+    header: string;
+    lines: DiffLine[];
+    // Lines left out of a long hunk until the full diff is asked for
+    hiddenLines?: number;
+}
+
+// A row of the side-by-side layout; a missing side is blank
+export interface SplitRow {
+    left?: DiffLine;
+    right?: DiffLine;
+}
+
+// One file's section of a patch
+export interface FilePatch {
+    // The file's path in the commit
+    filePath: string;
+    lines: string[];
+}
+
+// A combined diff has one @ more than the number of parents around its ranges; the first range is the
+// first parent's and the last one the commit's
+const HUNK_HEADER = /^(@@@*) -(\d+)(?:,\d+)? .*?\+(\d+)(?:,\d+)? \1/;
+const FILE_HEADER = /^diff --(?:git|cc|combined) /;
+
+// Git quotes paths with special characters in C style
+function unquote(path: string): string {
+    if (!path.startsWith('"') || !path.endsWith('"')) {
+        return path;
+    }
+    const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+    return path.slice(1, -1).replace(/\\(.)/g, (_, char: string) => escapes[char] ?? char);
+}
+
+// The path of a ---/+++ line without its a/ or b/ prefix; undefined for /dev/null. Git ends paths that
+// contain spaces with a tab.
+function headerPath(line: string): string | undefined {
+    const path = unquote(line.substring(4).replace(/\t$/, ''));
+    return path === '/dev/null' ? undefined : path.replace(/^[ab]\//, '');
+}
+
+// The column of +, - and space markers in front of each line: one per parent
+function markerWidth(hunkHeader: string): number {
+    return (hunkHeader.match(/^@+/)?.[0].length ?? 2) - 1;
+}
+
+// Whether a line with these markers is in the commit's version, and in the first parent's. A - marks the
+// parents that had a removed line; a + marks the parents that lacked an added one.
+function lineSides(markers: string): { inNew: boolean; inOld: boolean } {
+    const inNew = !markers.includes('-');
+    return { inNew, inOld: inNew ? markers[0] === ' ' : markers[0] === '-' };
+}
+
+// Splits a patch into its files, naming each by its path in the commit
+export function splitPatch(patch: string): FilePatch[] {
+    const files: FilePatch[] = [];
+    let file: FilePatch | undefined;
+    let inHunks = false;
+
+    for (const line of patch.split('\n')) {
+        if (FILE_HEADER.test(line)) {
+            const combined = line.match(/^diff --(?:cc|combined) (.*)$/);
+            const paths = line.match(/^diff --git a\/(.*?) b\/(.*)$/);
+            file = { filePath: unquote(combined ? combined[1] : paths ? paths[2] : line), lines: [] };
+            inHunks = false;
+            files.push(file);
+        }
+        if (!file) {
+            continue;
+        }
+        file.lines.push(line);
+
+        // The a/ and b/ paths of the diff --git line are ambiguous when a path contains " b/"
+        if (line.startsWith('@@')) {
+            inHunks = true;
+        } else if (inHunks) {
+            continue;
+        } else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+            file.filePath = unquote(line.substring(line.indexOf(' to ') + 4));
+        } else if (line.startsWith('+++ ')) {
+            file.filePath = headerPath(line) ?? file.filePath;
+        }
+    }
+    return files;
+}
+
+// Line pairs whose token counts multiply to more than this are not compared word by word; they are
+// still shown as changed lines
+const MAX_WORD_DIFF_CELLS = 40000;
+
+// Splits the lines of a file's patch into hunks, numbering each line in the old and new file. In a
+// combined diff the old file is the first parent's.
+export function parseHunks(patchLines: string[]): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let hunk: DiffHunk | undefined;
+    let oldNumber = 0;
+    let newNumber = 0;
+    let width = 1;
+
+    for (const line of patchLines) {
+        if (line.startsWith('@@')) {
+            const match = line.match(HUNK_HEADER);
+            oldNumber = match ? parseInt(match[2], 10) : 0;
+            newNumber = match ? parseInt(match[3], 10) : 0;
+            width = markerWidth(line);
+            hunk = { header: line, lines: [] };
+            hunks.push(hunk);
+        } else if (!hunk) {
+            // The diff --git, index and ---/+++ lines before the first hunk
+            continue;
+        } else if (line.startsWith('\\')) {
+            // "\ No newline at end of file" applies to the line before it
+            const previous = hunk.lines[hunk.lines.length - 1];
+            if (previous) {
+                previous.noNewlineAtEnd = true;
+            }
+        } else if (line.length > 0) {
+            const markers = line.substring(0, width);
+            const { inNew, inOld } = lineSides(markers);
+            hunk.lines.push({
+                kind: !inNew ? 'removed' : markers.includes('+') ? 'added' : 'context',
+                text: line.substring(width),
+                oldNumber: inOld ? oldNumber++ : undefined,
+                newNumber: inNew ? newNumber++ : undefined,
+            });
+        }
+    }
+    return hunks;
+}
+
+// Shortens hunks to their first limit lines
+export function truncateHunks(hunks: DiffHunk[], limit: number): DiffHunk[] {
+    return hunks.map((hunk) =>
+        hunk.lines.length > limit
+            ? { ...hunk, lines: hunk.lines.slice(0, limit), hiddenLines: hunk.lines.length - limit }
+            : hunk,
+    );
+}
+
+// Highlights the words that changed between each removed line and the added line that replaces it
+export function markWordChanges(hunks: DiffHunk[]) {
+    for (const { lines } of hunks) {
+        for (const { left, right } of toSplitRows(lines)) {
+            if (left && right && left !== right) {
+                markLineChanges(left, right);
+            }
+        }
+    }
+}
+
+// Context lines on both sides; each removed line beside the added line that replaces it
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+    const rows: SplitRow[] = [];
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+    const flush = () => {
+        for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+            rows.push({ left: removed[i], right: added[i] });
+        }
+        removed = [];
+        added = [];
+    };
+
+    for (const line of lines) {
+        if (line.kind === 'context') {
+            flush();
+            rows.push({ left: line, right: line });
+        } else if (line.kind === 'removed') {
+            if (added.length > 0) {
+                flush();
+            }
+            removed.push(line);
+        } else {
+            added.push(line);
+        }
+    }
+    flush();
+    return rows;
+}
+
+// Words, runs of whitespace and single punctuation characters
+function tokenize(text: string): string[] {
+    return text.match(/\w+|\s+|[^\w\s]/g) ?? [];
+}
+
+// Marks the tokens of two lines that are not in their longest common subsequence
+function markLineChanges(removed: DiffLine, added: DiffLine) {
+    const a = tokenize(removed.text);
+    const b = tokenize(added.text);
+    if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+        return;
+    }
+
+    // lengths[i * (m + 1) + j] is the LCS length of a[i..] and b[j..]
+    const n = a.length;
+    const m = b.length;
+    const lengths = new Uint16Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i * (m + 1) + j] =
+                a[i] === b[j]
+                    ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const keptA = new Array<boolean>(n).fill(false);
+    const keptB = new Array<boolean>(m).fill(false);
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) {
+            keptA[i++] = true;
+            keptB[j++] = true;
+        } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+
+    // Lines with nothing but whitespace in common are simply replaced; highlighting them adds nothing
+    if (!a.some((token, k) => keptA[k] && token.trim())) {
+        return;
+    }
+    removed.changes = toRanges(a, keptA);
+    added.changes = toRanges(b, keptB);
+}
+
+// Merges the character spans of consecutive changed tokens
+function toRanges(tokens: string[], kept: boolean[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    let offset = 0;
+    tokens.forEach((token, k) => {
+        const end = offset + token.length;
+        if (!kept[k]) {
+            const last = ranges[ranges.length - 1];
+            if (last && last[1] === offset) {
+                last[1] = end;
+            } else {
+                ranges.push([offset, end]);
+            }
+        }
+        offset = end;
+    });
+    return ranges;
+}
@@ -1,5 +1,6 @@
 import { createRoot } from 'react-dom/client';
-import { CommitDetailsView, CommitDetailsData } from './CommitDetailsView';
+import { CommitDetailsData } from '../../shared/types';
+import { CommitDetailsView } from './CommitDetailsView';
 
 declare global {
     interface Window {
@@ -0,0 +1,449 @@
+import { DiffHunk } from './diffLines';
+
+export type TokenKind = 'comment' | 'string' | 'keyword' | 'literal' | 'number' | 'function' | 'variable';
+
+// Character range [start, end) of a line and how to colour it
+export type Token = [number, number, TokenKind];
+
+// A comment or string left open at the end of a line, and the delimiter that closes it
+type LineState = { close: string; kind: 'comment' | 'string' } | null;
+
+export interface Language {
+    keywords: Set<string>;
+    literals: Set<string>;
+    lineComments: string[];
+    blockComments: [string, string][];
+    // Strings that end with the line at the latest
+    quotes: string[];
+    // Strings that can span lines, like template literals and docstrings
+    multilineQuotes: string[];
+    // Tried after comments and before strings, numbers and identifiers; must be sticky (y flag)
+    patterns: [RegExp, TokenKind][];
+    caseInsensitive: boolean;
+    // Whether an identifier followed by ( is coloured as a function
+    functions: boolean;
+}
+
+interface LanguageSpec {
+    keywords?: string;
+    literals?: string;
+    lineComments?: string[];
+    blockComments?: [string, string][];
+    quotes?: string[];
+    multilineQuotes?: string[];
+    patterns?: [RegExp, TokenKind][];
+    caseInsensitive?: boolean;
+    functions?: boolean;
+}
+
+function words(list = ''): Set<string> {
+    return new Set(list.split(/\s+/).filter(Boolean));
+}
+
+function language(spec: LanguageSpec): Language {
+    const caseInsensitive = spec.caseInsensitive ?? false;
+    const normalize = (list?: string) => (caseInsensitive ? list?.toLowerCase() : list);
+    return {
+        keywords: words(normalize(spec.keywords)),
+        literals: words(normalize(spec.literals)),
+        lineComments: spec.lineComments ?? [],
+        blockComments: spec.blockComments ?? [],
+        quotes: spec.quotes ?? ['"', "'"],
+        multilineQuotes: spec.multilineQuotes ?? [],
+        patterns: spec.patterns ?? [],
+        caseInsensitive,
+        functions: spec.functions ?? true,
+    };
+}
+
+const C_COMMENTS: Pick<LanguageSpec, 'lineComments' | 'blockComments'> = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+};
+
+const JAVASCRIPT = language({
+    ...C_COMMENTS,
+    keywords: `break case catch class const continue debugger default delete do else export extends finally for from
+        function if import in instanceof let new of return static super switch this throw try typeof var void while
+        with yield async await as implements interface enum type namespace declare readonly private protected public
+        abstract keyof infer is satisfies get set module override`,
+    literals: 'true false null undefined NaN Infinity',
+    quotes: ['"', "'"],
+    multilineQuotes: ['`'],
+});
+
+const PYTHON = language({
+    keywords: `and as assert async await break class continue def del elif else except finally for from global if
+        import in is lambda nonlocal not or pass raise return try while with yield match case`,
+    literals: 'True False None self cls',
+    lineComments: ['#'],
+    multilineQuotes: ['"""', "'''"],
+    patterns: [[/@[\w.]+/y, 'function']],
+});
+
+const JAVA = language({
+    ...C_COMMENTS,
+    keywords: `abstract assert boolean break byte case catch char class const continue default do double else enum
+        extends final finally float for goto if implements import instanceof int interface long native new package
+        private protected public return short static strictfp super switch synchronized this throw throws transient
+        try void volatile while var record yield`,
+    literals: 'true false null',
+    multilineQuotes: ['"""'],
+    patterns: [[/@\w+/y, 'function']],
+});
+
+const KOTLIN = language({
+    ...C_COMMENTS,
+    keywords: `as break class continue do else for fun if in interface is object package return super this throw try
+        typealias val var when while by companion data enum import init inner internal lateinit open override private
+        protected public sealed suspend`,
+    literals: 'true false null',
+    multilineQuotes: ['"""'],
+    patterns: [[/@\w+/y, 'function']],
+});
+
+const C_FAMILY = language({
+    ...C_COMMENTS,
+    keywords: `auto break case char const continue default do double else enum extern float for goto if inline int
+        long register return short signed sizeof static struct switch typedef union unsigned void volatile while class
+        namespace template typename public private protected virtual override new delete this using try catch throw
+        bool constexpr noexcept explicit friend operator mutable static_cast dynamic_cast reinterpret_cast const_cast`,
+    literals: 'true false NULL nullptr',
+    patterns: [[/#\s*[a-z]+/y, 'keyword']],
+});
+
+const CSHARP = language({
+    ...C_COMMENTS,
+    keywords: `abstract as base bool break byte case catch char checked class const continue decimal default delegate
+        do double else enum event explicit extern finally fixed float for foreach goto if implicit in int interface
+        internal is lock long namespace new object operator out override params private protected public readonly ref
+        return sbyte sealed short sizeof stackalloc static string struct switch this throw try typeof uint ulong
+        unchecked unsafe ushort using virtual void volatile while var async await get set init record`,
+    literals: 'true false null',
+    patterns: [[/#\s*[a-z]+/y, 'keyword']],
+});
+
+const GO = language({
+    ...C_COMMENTS,
+    keywords: `break case chan const continue default defer else fallthrough for func go goto if import interface map
+        package range return select struct switch type var`,
+    literals: 'true false nil iota',
+    multilineQuotes: ['`'],
+});
+
+const RUST = language({
+    ...C_COMMENTS,
+    keywords: `as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move
+        mut pub ref return self Self static struct super trait type unsafe use where while`,
+    literals: 'true false None Some Ok Err',
+    // Single quotes also start lifetimes, so only character literals are strings
+    quotes: ['"'],
+    patterns: [
+        [/'(?:\\.|[^\\'])'/y, 'string'],
+        [/[a-z_]\w*!/y, 'function'],
+    ],
+});
+
+const SWIFT = language({
+    ...C_COMMENTS,
+    keywords: `associatedtype class deinit enum extension func import init inout let operator protocol struct
+        subscript typealias var break case continue default defer do else fallthrough for guard if in repeat return
+        switch where while as catch is rethrows throws try async await self Self`,
+    literals: 'true false nil',
+    multilineQuotes: ['"""'],
+});
+
+const RUBY = language({
+    keywords: `alias and begin break case class def defined do else elsif end ensure for if in module next not or redo
+        rescue retry return self super then undef unless until when while yield require`,
+    literals: 'true false nil',
+    lineComments: ['#'],
+    patterns: [
+        [/:\w+/y, 'literal'],
+        [/@{1,2}\w+/y, 'variable'],
+    ],
+});
+
+const PHP = language({
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    keywords: `abstract and array as break callable case catch class clone const continue declare default do echo else
+        elseif empty extends final finally fn for foreach function global goto if implements include include_once
+        instanceof insteadof interface isset list match namespace new or print private protected public readonly
+        require require_once return static switch throw trait try unset use var while yield`,
+    literals: 'true false null TRUE FALSE NULL',
+    patterns: [[/\$\w+/y, 'variable']],
+});
+
+const SHELL = language({
+    keywords: `if then else elif fi case esac for while until do done in function return local export readonly declare
+        unset shift exit break continue select time source`,
+    literals: 'true false',
+    lineComments: ['#'],
+    patterns: [[/\$\{[^}]*\}|\$\w+|\$[@*#?$!-]/y, 'variable']],
+    functions: false,
+});
+
+const SQL = language({
+    lineComments: ['--'],
+    blockComments: [['/*', '*/']],
+    keywords: `select from where insert into values update set delete create table alter drop index view join left
+        right inner outer full cross on as and or not is in exists group by order having limit offset union all
+        distinct case when then else end primary key foreign references default begin commit rollback with returning
+        like between asc desc unique constraint if replace trigger procedure function returns declare`,
+    literals: 'null true false',
+    quotes: ["'", '"'],
+    caseInsensitive: true,
+});
+
+const CSS = language({
+    ...C_COMMENTS,
+    literals: 'important inherit initial unset none auto',
+    patterns: [
+        [/#[\da-fA-F]{3,8}\b/y, 'number'],
+        [/@[\w-]+/y, 'keyword'],
+        [/--[\w-]+|\$[\w-]+/y, 'variable'],
+        [/[a-zA-Z-]+(?=\s*:[^:])/y, 'variable'],
+    ],
+});
+
+const JSON_LANGUAGE = language({
+    literals: 'true false null',
+    quotes: ['"'],
+    patterns: [[/"(?:\\.|[^"\\])*"(?=\s*:)/y, 'variable']],
+    functions: false,
+});
+
+const YAML = language({
+    literals: 'true false null yes no on off',
+    lineComments: ['#'],
+    patterns: [
+        [/[\w.-]+(?=\s*:(?:\s|$))/y, 'variable'],
+        [/[&*][\w-]+/y, 'keyword'],
+    ],
+    functions: false,
+});
+
+const MARKUP = language({
+    blockComments: [['<!--', '-->']],
+    // Apostrophes in text would otherwise start strings
+    quotes: ['"'],
+    patterns: [
+        [/<\/?[\w:.-]+/y, 'keyword'],
+        [/[\w:-]+(?==)/y, 'variable'],
+        [/&\w+;/y, 'literal'],
+    ],
+    functions: false,
+});
+
+const DOCKERFILE = language({
+    keywords: `from run cmd label expose env add copy entrypoint volume user workdir arg onbuild stopsignal
+        healthcheck shell as`,
+    lineComments: ['#'],
+    patterns: [[/\$\{[^}]*\}|\$\w+/y, 'variable']],
+    caseInsensitive: true,
+    functions: false,
+});
+
+const LANGUAGES_BY_EXTENSION: Record<string, Language> = {
+    js: JAVASCRIPT,
+    jsx: JAVASCRIPT,
+    mjs: JAVASCRIPT,
+    cjs: JAVASCRIPT,
+    ts: JAVASCRIPT,
+    tsx: JAVASCRIPT,
+    mts: JAVASCRIPT,
+    cts: JAVASCRIPT,
+    py: PYTHON,
+    pyi: PYTHON,
+    java: JAVA,
+    kt: KOTLIN,
+    kts: KOTLIN,
+    scala: JAVA,
+    groovy: JAVA,
+    gradle: JAVA,
+    c: C_FAMILY,
+    h: C_FAMILY,
+    cc: C_FAMILY,
+    cpp: C_FAMILY,
+    cxx: C_FAMILY,
+    hpp: C_FAMILY,
+    hh: C_FAMILY,
+    m: C_FAMILY,
+    mm: C_FAMILY,
+    cs: CSHARP,
+    go: GO,
+    rs: RUST,
+    swift: SWIFT,
+    rb: RUBY,
+    rake: RUBY,
+    php: PHP,
+    sh: SHELL,
+    bash: SHELL,
+    zsh: SHELL,
+    fish: SHELL,
+    sql: SQL,
+    css: CSS,
+    scss: CSS,
+    less: CSS,
+    json: JSON_LANGUAGE,
+    jsonc: JAVASCRIPT,
+    json5: JAVASCRIPT,
+    yml: YAML,
+    yaml: YAML,
+    html: MARKUP,
+    htm: MARKUP,
+    xml: MARKUP,
+    svg: MARKUP,
+    vue: MARKUP,
+    svelte: MARKUP,
+    xaml: MARKUP,
+    csproj: MARKUP,
+    plist: MARKUP,
+};
+
+const LANGUAGES_BY_NAME: Record<string, Language> = {
+    dockerfile: DOCKERFILE,
+    makefile: SHELL,
+    gemfile: RUBY,
+    rakefile: RUBY,
+    '.bashrc': SHELL,
+    '.zshrc': SHELL,
+    '.profile': SHELL,
+};
+
+// Picked from the file name, then its extension; undefined for files shown as plain text
+export function languageForPath(filePath: string): Language | undefined {
+    const name = filePath.substring(filePath.lastIndexOf('/') + 1).toLowerCase();
+    const dot = name.lastIndexOf('.');
+    return LANGUAGES_BY_NAME[name] ?? (dot > 0 ? LANGUAGES_BY_EXTENSION[name.substring(dot + 1)] : undefined);
+}
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)[a-zA-Z]*/y;
+const FUNCTION_CALL = /\s*\(/y;
+
+function matchAt(pattern: RegExp, text: string, pos: number): number {
+    pattern.lastIndex = pos;
+    return pattern.test(text) ? pattern.lastIndex : -1;
+}
+
+// The index just past close, skipping backslash escapes in strings; -1 when the line does not close it
+function findClose(text: string, pos: number, close: string, escapes: boolean): number {
+    for (let i = pos; i < text.length; i++) {
+        if (escapes && text[i] === '\\') {
+            i++;
+        } else if (text.startsWith(close, i)) {
+            return i + close.length;
+        }
+    }
+    return -1;
+}
+
+// Tokens of one line, given what the lines before it left open, and what this one leaves open
+function tokenizeLine(text: string, lang: Language, state: LineState): { tokens: Token[]; state: LineState } {
+    const tokens: Token[] = [];
+    let pos = 0;
+
+    // Opens a comment or string at start whose content begins at from; it may run past the line
+    const open = (start: number, from: number, close: string, kind: 'comment' | 'string'): boolean => {
+        const end = findClose(text, from, close, kind === 'string');
+        tokens.push([start, end < 0 ? text.length : end, kind]);
+        pos = end < 0 ? text.length : end;
+        state = end < 0 ? { close, kind } : null;
+        return true;
+    };
+
+    if (state) {
+        open(0, 0, state.close, state.kind);
+    }
+
+    scan: while (pos < text.length) {
+        const char = text[pos];
+        if (char === ' ' || char === '\t') {
+            pos++;
+            continue;
+        }
+
+        for (const prefix of lang.lineComments) {
+            if (text.startsWith(prefix, pos)) {
+                tokens.push([pos, text.length, 'comment']);
+                break scan;
+            }
+        }
+        for (const [start, close] of lang.blockComments) {
+            if (text.startsWith(start, pos)) {
+                open(pos, pos + start.length, close, 'comment');
+                continue scan;
+            }
+        }
+        for (const [pattern, kind] of lang.patterns) {
+            const end = matchAt(pattern, text, pos);
+            if (end > pos) {
+                tokens.push([pos, end, kind]);
+                pos = end;
+                continue scan;
+            }
+        }
+        for (const quote of lang.multilineQuotes) {
+            if (text.startsWith(quote, pos)) {
+                open(pos, pos + quote.length, quote, 'string');
+                continue scan;
+            }
+        }
+        if (lang.quotes.includes(char)) {
+            const end = findClose(text, pos + 1, char, true);
+            tokens.push([pos, end < 0 ? text.length : end, 'string']);
+            pos = end < 0 ? text.length : end;
+            continue;
+        }
+
+        const numberEnd = matchAt(NUMBER, text, pos);
+        if (numberEnd > pos) {
+            tokens.push([pos, numberEnd, 'number']);
+            pos = numberEnd;
+            continue;
+        }
+
+        const wordEnd = matchAt(IDENTIFIER, text, pos);
+        if (wordEnd > pos) {
+            const word = text.substring(pos, wordEnd);
+            const key = lang.caseInsensitive ? word.toLowerCase() : word;
+            if (lang.keywords.has(key)) {
+                tokens.push([pos, wordEnd, 'keyword']);
+            } else if (lang.literals.has(key)) {
+                tokens.push([pos, wordEnd, 'literal']);
+            } else if (lang.functions && matchAt(FUNCTION_CALL, text, wordEnd) > 0) {
+                tokens.push([pos, wordEnd, 'function']);
+            }
+            pos = wordEnd;
+            continue;
+        }
+        pos++;
+    }
+    return { tokens, state };
+}
+
+function sameState(a: LineState, b: LineState): boolean {
+    return a === b || (!!a && !!b && a.close === b.close && a.kind === b.kind);
+}
+
+// Colours the lines of each hunk. The old and new sides are followed separately, so a comment opened
+// on a removed line does not colour the added ones. Each hunk starts outside any comment or string.
+export function highlightHunks(hunks: DiffHunk[], lang: Language) {
+    for (const { lines } of hunks) {
+        let oldState: LineState = null;
+        let newState: LineState = null;
+        for (const line of lines) {
+            if (line.kind === 'removed') {
+                ({ tokens: line.tokens, state: oldState } = tokenizeLine(line.text, lang, oldState));
+            } else if (line.kind === 'added') {
+                ({ tokens: line.tokens, state: newState } = tokenizeLine(line.text, lang, newState));
+            } else {
+                const wasSame = sameState(oldState, newState);
+                ({ tokens: line.tokens, state: newState } = tokenizeLine(line.text, lang, newState));
+                oldState = wasSame ? newState : tokenizeLine(line.text, lang, oldState).state;
+            }
+        }
+    }
+}
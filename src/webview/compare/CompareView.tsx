@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { ComparedFile, CompareHostMessage, CompareWebviewMessage } from '../../shared/types';
+import { vscode } from '../vscodeApi';
+
+// Colour class and description for each git status letter
+const STATUSES: Record<string, { kind: string; title: string }> = {
+    M: { kind: 'modified', title: 'Modified' },
+    A: { kind: 'added', title: 'Added' },
+    D: { kind: 'deleted', title: 'Deleted' },
+    R: { kind: 'added', title: 'Renamed' },
+    C: { kind: 'added', title: 'Copied' },
+    T: { kind: 'modified', title: 'Type changed' },
+};
+
+function postMessage(message: CompareWebviewMessage) {
+    vscode.postMessage(message);
+}
+
+function FileRow({ file }: { file: ComparedFile }) {
+    const status = STATUSES[file.status] ?? STATUSES.M;
+    return (
+        <div
+            className="file-row"
+            title={`${status.title}: ${file.oldPath ? `${file.oldPath} → ` : ''}${file.path}`}
+            onClick={() => postMessage({ command: 'openDiff', file })}
+        >
+            <span className={`file-status status-${status.kind}`}>{file.status}</span>
+            <span className="file-name">
+                {file.oldPath && <span className="file-old-path">{file.oldPath} → </span>}
+                {file.path}
+            </span>
+            <span className="file-stats">
+                {file.binary ? (
+                    <span className="binary">binary</span>
+                ) : (
+                    <>
+                        {file.added > 0 && <span className="added">+{file.added} </span>}
+                        {file.removed > 0 && <span className="removed">-{file.removed}</span>}
+                    </>
+                )}
+            </span>
+        </div>
+    );
+}
+
+export function CompareView() {
+    const [comparison, setComparison] = useState<CompareHostMessage | null>(null);
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent<CompareHostMessage>) => {
+            if (event.data.command === 'setComparison') {
+                setComparison(event.data);
+            }
+        };
+        window.addEventListener('message', onMessage);
+        postMessage({ command: 'ready' });
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    if (!comparison) {
+        return <p className="hint">Comparing...</p>;
+    }
+
+    const { leftLabel, rightLabel, threeDot, base, files } = comparison;
+    const added = files.reduce((sum, f) => sum + f.added, 0);
+    const removed = files.reduce((sum, f) => sum + f.removed, 0);
+
+    const setThreeDot = (value: boolean) => {
+        if (value !== threeDot) {
+            postMessage({ command: 'setThreeDot', threeDot: value });
+        }
+    };
+
+    return (
+        <>
+            <p className="title">
+                {leftLabel} ↔ {rightLabel}
+            </p>
+            <div className="mode">
+                <button className={threeDot ? 'secondary' : ''} onClick={() => setThreeDot(false)}>
+                    Two-dot
+                </button>
+                <button className={threeDot ? '' : 'secondary'} onClick={() => setThreeDot(true)}>
+                    Three-dot
+                </button>
+                <span className="hint">
+                    {threeDot
+                        ? `Changes on ${rightLabel} since it diverged from ${leftLabel} at ${base.substring(0, 7)}`
+                        : `Every difference between ${leftLabel} and ${rightLabel}`}
+                </span>
+            </div>
+
+            <div className="section-title">
+                {files.length} {files.length === 1 ? 'file' : 'files'} changed <span className="added">+{added}</span>{' '}
+                <span className="removed">-{removed}</span>
+            </div>
+            {files.length === 0 ? (
+                <p className="hint">No differences.</p>
+            ) : (
+                files.map((file) => <FileRow key={file.path} file={file} />)
+            )}
+        </>
+    );
+}
@@ -0,0 +1,5 @@
+import { createRoot } from 'react-dom/client';
+import { CompareView } from './CompareView';
+
+const root = document.getElementById('root')!;
+createRoot(root).render(<CompareView />);
@@ -1,14 +1,23 @@
 import React, { useRef, useEffect } from 'react';
-import { GitCommit } from '../types';
+import { describeTracking, formatTracking } from '../../shared/tracking';
+import { GitCommit, UpstreamTracking } from '../../shared/types';
 import { RowGraphData } from './graphRenderer';
 import { GraphCanvas } from './GraphCanvas';
 
 interface Props {
     commit: GitCommit;
+    // Set when the row stands for a stash entry rather than a commit
+    stashRef?: string;
     lane: number;
     canvasWidth: number;
     headCommitHash: string | undefined;
+    // Upstream of the checked-out branch, given to the HEAD row only
+    headTracking: UpstreamTracking | null;
+    // Null when no branch is selected
+    selectedRefs: Set<string> | null;
     isSelected: boolean;
+    isMatch: boolean;
+    isCurrentMatch: boolean;
     isEditing: boolean;
     rowGraphData: RowGraphData;
     onClick: (shiftKey: boolean) => void;
@@ -17,48 +26,50 @@ interface Props {
     onEditCancel: () => void;
 }
 
-function RefBadges({ refs }: { refs: string[] }) {
+function RefBadges({
+    refs,
+    selectedRefs,
+    headTracking,
+}: {
+    refs: string[];
+    selectedRefs: Set<string> | null;
+    headTracking: UpstreamTracking | null;
+}) {
     if (!refs.length) {
         return null;
     }
 
+    // Refs outside the branch selection are greyed out
+    const badge = (key: number, kind: string, name: string, tracking?: UpstreamTracking | null) => {
+        const counts = tracking && formatTracking(tracking);
+        return (
+            <span
+                key={key}
+                className={`ref-badge ${kind}${selectedRefs && !selectedRefs.has(name) ? ' ref-dimmed' : ''}`}
+                title={tracking ? describeTracking(tracking) : undefined}
+            >
+                {name}
+                {counts && <span className="ref-tracking">{counts}</span>}
+            </span>
+        );
+    };
+
+    // Refs come with their full names: refs/heads/…, refs/remotes/…, tag: refs/tags/…
     const badges = refs.flatMap((ref, i) => {
         if (ref.startsWith('HEAD -> ')) {
-            return [
-                <span key={i} className="ref-badge ref-head">
-                    {ref.substring(8)}
-                </span>,
-            ];
+            return [badge(i, 'ref-head', ref.substring(8).replace('refs/heads/', ''), headTracking)];
         }
         if (ref === 'HEAD') {
-            return [
-                <span key={i} className="ref-badge ref-head">
-                    HEAD
-                </span>,
-            ];
+            return [badge(i, 'ref-head', 'HEAD')];
         }
         if (ref.startsWith('tag: ')) {
-            return [
-                <span key={i} className="ref-badge ref-tag">
-                    {ref.substring(5)}
-                </span>,
-            ];
-        }
-        if (ref.includes('origin/HEAD') || ref.includes('upstream/HEAD')) {
-            return [];
+            return [badge(i, 'ref-tag', ref.substring(5).replace('refs/tags/', ''))];
         }
-        if (ref.includes('origin/') || ref.includes('upstream/')) {
-            return [
-                <span key={i} className="ref-badge ref-remote">
-                    {ref.replace('refs/remotes/', '')}
-                </span>,
-            ];
+        if (ref.startsWith('refs/remotes/')) {
+            // The remote HEAD pointers only repeat the remote's default branch
+            return ref.endsWith('/HEAD') ? [] : [badge(i, 'ref-remote', ref.replace('refs/remotes/', ''))];
         }
-        return [
-            <span key={i} className="ref-badge ref-branch">
-                {ref.replace('refs/heads/', '')}
-            </span>,
-        ];
+        return [badge(i, 'ref-branch', ref.replace('refs/heads/', ''))];
     });
 
     if (!badges.length) {
@@ -69,10 +80,15 @@ function RefBadges({ refs }: { refs: string[] }) {
 
 export const CommitRow = React.memo(function CommitRow({
     commit,
+    stashRef,
     lane,
     canvasWidth,
     headCommitHash,
+    headTracking,
+    selectedRefs,
     isSelected,
+    isMatch,
+    isCurrentMatch,
     isEditing,
     rowGraphData,
     onClick,
@@ -91,7 +107,16 @@ export const CommitRow = React.memo(function CommitRow({
 
     return (
         <tr
-            className={isSelected ? 'row-selected' : undefined}
+            className={
+                [
+                    stashRef && 'row-stash',
+                    isSelected && 'row-selected',
+                    isMatch && 'row-match',
+                    isCurrentMatch && 'row-match-current',
+                ]
+                    .filter(Boolean)
+                    .join(' ') || undefined
+            }
             data-commit-hash={commit.hash}
             onClick={(e) => onClick(e.shiftKey)}
             onContextMenu={onContextMenu}
@@ -101,32 +126,46 @@ export const CommitRow = React.memo(function CommitRow({
                     lane={lane}
                     canvasWidth={canvasWidth}
                     isHead={commit.hash === headCommitHash}
+                    isStash={!!stashRef}
                     rowGraphData={rowGraphData}
                 />
             </td>
             <td className="message-cell" title={commit.message}>
-                <RefBadges refs={commit.refs} />
-                {isEditing ? (
-                    <input
-                        ref={inputRef}
-                        className="message-edit-input"
-                        defaultValue={commit.message}
-                        onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                                e.preventDefault();
-                                onEditConfirm(e.currentTarget.value.trim());
-                            }
-                            if (e.key === 'Escape') {
-                                e.preventDefault();
-                                onEditCancel();
-                            }
-                        }}
-                        onBlur={onEditCancel}
-                        onClick={(e) => e.stopPropagation()}
-                    />
-                ) : (
-                    <span className="message-text">{commit.message}</span>
-                )}
+                <div className="message-content">
+                    <RefBadges refs={commit.refs} selectedRefs={selectedRefs} headTracking={headTracking} />
+                    {stashRef && (
+                        <div className="refs-container">
+                            <span className="ref-badge ref-stash">{stashRef}</span>
+                        </div>
+                    )}
+                    {isEditing ? (
+                        <input
+                            ref={inputRef}
+                            className="message-edit-input"
+                            defaultValue={commit.message}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    onEditConfirm(e.currentTarget.value.trim());
+                                }
+                                if (e.key === 'Escape') {
+                                    e.preventDefault();
+                                    onEditCancel();
+                                }
+                            }}
+                            onBlur={onEditCancel}
+                            onClick={(e) => e.stopPropagation()}
+                        />
+                    ) : (
+                        <span className="message-text">{commit.message}</span>
+                    )}
+                    {commit.fileStats && (
+                        <span className="file-stats">
+                            <span className="added">+{commit.fileStats.added}</span>{' '}
+                            <span className="removed">-{commit.fileStats.removed}</span>
+                        </span>
+                    )}
+                </div>
             </td>
             <td className="hash-cell">{commit.shortHash}</td>
             <td className="author-cell">{commit.author}</td>
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { GitLogFilters } from '../../shared/types';
+
+interface Props {
+    // Null while no search is active
+    matchCount: number | null;
+    currentMatch: number;
+    truncated: boolean;
+    // The path of a file history, which every search is limited to; the Path field then shows it
+    historyPath: string | null;
+    onSearch: (filters: GitLogFilters) => void;
+    onClear: () => void;
+    onNext: () => void;
+    onPrevious: () => void;
+}
+
+type TextFilter = 'message' | 'author' | 'hashPrefix' | 'path';
+
+const TEXT_FIELDS: { key: TextFilter; placeholder: string; className: string }[] = [
+    { key: 'message', placeholder: 'Message', className: 'filter-input filter-input-wide' },
+    { key: 'author', placeholder: 'Author', className: 'filter-input' },
+    { key: 'hashPrefix', placeholder: 'Hash', className: 'filter-input filter-input-narrow' },
+    { key: 'path', placeholder: 'Path', className: 'filter-input' },
+];
+
+function isEmpty(filters: GitLogFilters): boolean {
+    return !Object.values(filters).some((value) => value && value.trim());
+}
+
+export function FilterBar(props: Props) {
+    const { matchCount, currentMatch, truncated, historyPath, onSearch, onClear, onNext, onPrevious } = props;
+    const [typedFilters, setFilters] = useState<GitLogFilters>({});
+    // A path typed before the graph became a file history is not searched for
+    const filters = historyPath === null ? typedFilters : { ...typedFilters, path: undefined };
+    const [searched, setSearched] = useState<GitLogFilters | null>(null);
+
+    const setFilter = (key: keyof GitLogFilters, value: string) => setFilters((prev) => ({ ...prev, [key]: value }));
+
+    const clear = () => {
+        setFilters({});
+        setSearched(null);
+        onClear();
+    };
+
+    // Enter runs the search, or steps through the matches when the filters have not changed since
+    const submit = (backwards: boolean) => {
+        if (isEmpty(filters)) {
+            clear();
+        } else if (searched && JSON.stringify(searched) === JSON.stringify(filters)) {
+            if (backwards) {
+                onPrevious();
+            } else {
+                onNext();
+            }
+        } else {
+            setSearched(filters);
+            onSearch(filters);
+        }
+    };
+
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            submit(e.shiftKey);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            clear();
+        }
+    };
+
+    return (
+        <div className="filter-bar" onClick={(e) => e.stopPropagation()}>
+            {TEXT_FIELDS.map(({ key, placeholder, className }) =>
+                key === 'path' && historyPath !== null ? (
+                    <input
+                        key={key}
+                        className={className}
+                        title="This file history only shows commits that changed this path"
+                        value={historyPath}
+                        disabled
+                    />
+                ) : (
+                    <input
+                        key={key}
+                        className={className}
+                        placeholder={placeholder}
+                        value={filters[key] ?? ''}
+                        onChange={(e) => setFilter(key, e.target.value)}
+                        onKeyDown={onKeyDown}
+                    />
+                ),
+            )}
+            <input
+                className="filter-input filter-input-date"
+                type="date"
+                title="Since"
+                value={filters.since ?? ''}
+                onChange={(e) => setFilter('since', e.target.value)}
+                onKeyDown={onKeyDown}
+            />
+            <span className="filter-separator">–</span>
+            <input
+                className="filter-input filter-input-date"
+                type="date"
+                title="Until"
+                value={filters.until ?? ''}
+                onChange={(e) => setFilter('until', e.target.value)}
+                onKeyDown={onKeyDown}
+            />
+            <button className="filter-button" title="Search (Enter)" onClick={() => submit(false)}>
+                Search
+            </button>
+            {matchCount !== null && (
+                <>
+                    <span className="filter-status">
+                        {matchCount === 0
+                            ? 'No matches'
+                            : `${currentMatch + 1} of ${matchCount}${truncated ? '+' : ''}`}
+                    </span>
+                    <button
+                        className="filter-button"
+                        title="Previous match (Shift+Enter)"
+                        disabled={!matchCount}
+                        onClick={onPrevious}
+                    >
+                        ▲
+                    </button>
+                    <button
+                        className="filter-button"
+                        title="Next match (Enter)"
+                        disabled={!matchCount}
+                        onClick={onNext}
+                    >
+                        ▼
+                    </button>
+                    <button className="filter-button" title="Clear (Escape)" onClick={clear}>
+                        ✕
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
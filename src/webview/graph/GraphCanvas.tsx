@@ -25,10 +25,18 @@ interface Props {
     lane: number;
     canvasWidth: number;
     isHead: boolean;
+    // Stashes are drawn as a hollow square
+    isStash: boolean;
     rowGraphData: RowGraphData;
 }
 
-export const GraphCanvas = React.memo(function GraphCanvas({ lane, canvasWidth, isHead, rowGraphData }: Props) {
+export const GraphCanvas = React.memo(function GraphCanvas({
+    lane,
+    canvasWidth,
+    isHead,
+    isStash,
+    rowGraphData,
+}: Props) {
     const ref = useRef<HTMLCanvasElement>(null);
 
     useEffect(() => {
@@ -97,7 +105,13 @@ export const GraphCanvas = React.memo(function GraphCanvas({ lane, canvasWidth,
         // 4. Commit dot (drawn last, on top)
         const dotX = Math.round(lane * LANE_WIDTH + 10);
         const dotY = Math.round(y);
-        if (isHead) {
+        if (isStash) {
+            const size = COMMIT_RADIUS * 2;
+            ctx.clearRect(dotX - COMMIT_RADIUS - 1, dotY - COMMIT_RADIUS - 1, size + 2, size + 2);
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 2;
+            ctx.strokeRect(dotX - COMMIT_RADIUS + 0.5, dotY - COMMIT_RADIUS + 0.5, size - 1, size - 1);
+        } else if (isHead) {
             ctx.clearRect(
                 dotX - COMMIT_RADIUS - 1,
                 dotY - COMMIT_RADIUS - 1,
@@ -119,7 +133,53 @@ export const GraphCanvas = React.memo(function GraphCanvas({ lane, canvasWidth,
             ctx.arc(dotX, dotY, COMMIT_RADIUS, 0, 2 * Math.PI);
             ctx.fill();
         }
-    }, [lane, canvasWidth, isHead, rowGraphData]);
+    }, [lane, canvasWidth, isHead, isStash, rowGraphData]);
+
+    return <canvas ref={ref} style={{ display: 'block', width: canvasWidth, height: ROW_HEIGHT }} />;
+});
+
+// The uncommitted changes above HEAD: a hollow dot, joined to HEAD by a dashed line
+export const WorkingTreeCanvas = React.memo(function WorkingTreeCanvas({
+    lane,
+    canvasWidth,
+    connected,
+}: {
+    lane: number;
+    canvasWidth: number;
+    connected: boolean;
+}) {
+    const ref = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = ref.current;
+        if (!canvas) {
+            return;
+        }
+
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = canvasWidth * dpr;
+        canvas.height = ROW_HEIGHT * dpr;
+
+        const ctx = canvas.getContext('2d')!;
+        ctx.scale(dpr, dpr);
+
+        const color = COLORS[lane % COLORS.length];
+        const x = px(lane * LANE_WIDTH + 10);
+        const y = ROW_HEIGHT / 2;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = LINE_WIDTH;
+        ctx.setLineDash([2, 2]);
+
+        if (connected) {
+            ctx.beginPath();
+            ctx.moveTo(x, y + COMMIT_RADIUS);
+            ctx.lineTo(x, ROW_HEIGHT);
+            ctx.stroke();
+        }
+        ctx.beginPath();
+        ctx.arc(Math.round(lane * LANE_WIDTH + 10), Math.round(y), COMMIT_RADIUS, 0, 2 * Math.PI);
+        ctx.stroke();
+    }, [lane, canvasWidth, connected]);
 
     return <canvas ref={ref} style={{ display: 'block', width: canvasWidth, height: ROW_HEIGHT }} />;
 });
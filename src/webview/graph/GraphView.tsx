@@ -1,70 +1,340 @@
-import React, { useCallback, useMemo, useState } from 'react';
-import { GitCommit } from '../types';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+    GitCommit,
+    GitLogFilters,
+    GitStash,
+    GraphHostMessage,
+    OperationState,
+    RangeCommitAction,
+    SingleCommitAction,
+    StashAction,
+    UpstreamTracking,
+    WorkingTreeStatus,
+} from '../../shared/types';
 import { vscode } from '../vscodeApi';
-import { areCommitsConsecutive, calculateLanes, calculateRowGraphData } from './graphRenderer';
+import {
+    areCommitsConsecutive,
+    createGraphLayout,
+    extendGraphLayout,
+    GraphLayout,
+    insertStashes,
+} from './graphRenderer';
 import { CommitRow } from './CommitRow';
+import { FilterBar } from './FilterBar';
+import { OperationBanner } from './OperationBanner';
+import { WorkingTreeRow } from './WorkingTreeRow';
 
 const LANE_WIDTH = 18;
+const ROW_HEIGHT = 28;
+// Rows mounted above and below the visible window, so fast scrolling does not show blank rows
+const OVERSCAN_ROWS = 20;
+// Request the next page once the visible window gets this close to the last loaded row
+const LOAD_MORE_THRESHOLD = 100;
 
 interface SingleMenu {
     x: number;
     y: number;
     hash: string;
-    index: number;
 }
 interface RangeMenu {
     x: number;
     y: number;
-    sortedIndices: number[];
+    // Newest first, as shown in the graph
+    hashes: string[];
+    parentHash: string;
     consecutive: boolean;
 }
+interface StashMenu {
+    x: number;
+    y: number;
+    stash: GitStash;
+}
 
-interface Props {
+interface GraphState {
+    // The history as loaded from the extension, and the rows drawn: the history with the stashes
+    // inserted above their base commits
+    history: GitCommit[];
+    stashes: GitStash[];
     commits: GitCommit[];
+    layout: GraphLayout;
+    hasMore: boolean;
+    loading: boolean;
+    loaded: boolean;
+}
+
+interface SearchState {
+    // Newest first, as shown in the graph
+    hashes: string[];
+    matches: Set<string>;
+    truncated: boolean;
+    current: number;
 }
 
-export function GraphView({ commits }: Props) {
-    const [selectedIndices, setSelectedIndices] = useState(new Set<number>());
-    const [rangeStartIndex, setRangeStartIndex] = useState<number | null>(null);
+const INITIAL_GRAPH: GraphState = {
+    history: [],
+    stashes: [],
+    commits: [],
+    layout: createGraphLayout(),
+    hasMore: false,
+    loading: false,
+    loaded: false,
+};
+
+function layOutRows(history: GitCommit[], stashes: GitStash[]) {
+    const commits = insertStashes(history, stashes);
+    return { commits, layout: extendGraphLayout(createGraphLayout(), commits) };
+}
+
+export function GraphView() {
+    const [graph, setGraph] = useState(INITIAL_GRAPH);
+    const { history, stashes, commits, layout, hasMore, loading, loaded } = graph;
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [viewport, setViewport] = useState({ scrollTop: 0, height: window.innerHeight });
+    // Selection and menus are keyed by hash so they survive history updates from the extension
+    const [selectedHashes, setSelectedHashes] = useState(new Set<string>());
+    const [rangeStartHash, setRangeStartHash] = useState<string | null>(null);
     const [singleMenu, setSingleMenu] = useState<SingleMenu | null>(null);
     const [rangeMenu, setRangeMenu] = useState<RangeMenu | null>(null);
+    const [stashMenu, setStashMenu] = useState<StashMenu | null>(null);
     const [editingHash, setEditingHash] = useState<string | null>(null);
+    const [search, setSearch] = useState<SearchState | null>(null);
+    // Set when this graph shows the history of a single file or folder
+    const [historyPath, setHistoryPath] = useState<string | null>(null);
+    const [selectedRefs, setSelectedRefs] = useState<Set<string> | null>(null);
+    // Rebase, merge, cherry-pick or revert waiting for the user
+    const [operation, setOperation] = useState<OperationState | null>(null);
+    const [workingTree, setWorkingTree] = useState<WorkingTreeStatus | null>(null);
+    const [workingTreeExpanded, setWorkingTreeExpanded] = useState(false);
+    const [headTracking, setHeadTracking] = useState<UpstreamTracking | null>(null);
+    // The working tree row sits in the table header; commit rows start below it
+    const [headerHeight, setHeaderHeight] = useState(0);
+    // Commit to scroll to and select, once the page holding it has been loaded
+    const [pendingReveal, setPendingReveal] = useState<string | null>(null);
+    const searchFiltersRef = useRef<GitLogFilters | null>(null);
+    // Id of the latest search sent; replies to earlier ones, or to one cleared since, are dropped
+    const searchRequestRef = useRef(0);
+    const revealFirstMatchRef = useRef(false);
+    const revealRequestedRef = useRef<string | null>(null);
 
-    const commitLanes = useMemo(() => calculateLanes(commits), [commits]);
-    const rowGraphData = useMemo(() => calculateRowGraphData(commits, commitLanes), [commits, commitLanes]);
-    const maxLane = useMemo(
-        () => (commits.length > 0 ? Math.max(...Array.from(commitLanes.values())) + 1 : 1),
-        [commitLanes, commits],
-    );
-    const canvasWidth = maxLane * LANE_WIDTH + 12;
+    const canvasWidth = layout.laneCount * LANE_WIDTH + 12;
+
+    const commitIndex = useMemo(() => new Map(commits.map((c, i) => [c.hash, i])), [commits]);
+
+    const stashByHash = useMemo(() => new Map(stashes.map((s) => [s.hash, s])), [stashes]);
 
     const headCommitHash = useMemo(
-        () => (commits.find((c) => c.refs.some((r) => r.startsWith('HEAD -> ') || r === 'HEAD')) ?? commits[0])?.hash,
-        [commits],
+        () => (history.find((c) => c.refs.some((r) => r.startsWith('HEAD -> ') || r === 'HEAD')) ?? history[0])?.hash,
+        [history],
+    );
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent<GraphHostMessage>) => {
+            const message = event.data;
+            switch (message.command) {
+                case 'setCommits':
+                    setGraph((prev) => ({
+                        ...prev,
+                        ...layOutRows(message.commits, prev.stashes),
+                        history: message.commits,
+                        hasMore: message.hasMore,
+                        loading: false,
+                        loaded: true,
+                    }));
+                    // The history changed, so the matches may have too
+                    if (searchFiltersRef.current) {
+                        vscode.postMessage({
+                            command: 'search',
+                            requestId: ++searchRequestRef.current,
+                            filters: searchFiltersRef.current,
+                        });
+                    }
+                    break;
+                case 'appendCommits':
+                    setGraph((prev) => {
+                        // A page requested before the last reset no longer lines up with the history
+                        if (prev.history.length !== message.skip) {
+                            return prev;
+                        }
+                        const rows = insertStashes(message.commits, prev.stashes);
+                        return {
+                            ...prev,
+                            history: prev.history.concat(message.commits),
+                            commits: prev.commits.concat(rows),
+                            layout: extendGraphLayout(prev.layout, rows),
+                            hasMore: message.hasMore,
+                            loading: false,
+                        };
+                    });
+                    break;
+                case 'setStashes':
+                    setGraph((prev) => ({
+                        ...prev,
+                        ...layOutRows(prev.history, message.stashes),
+                        stashes: message.stashes,
+                    }));
+                    break;
+                case 'setHistoryPath':
+                    setHistoryPath(message.path);
+                    break;
+                case 'setSelectedRefs':
+                    setSelectedRefs(message.refs.length > 0 ? new Set(message.refs) : null);
+                    break;
+                case 'setOperation':
+                    setOperation(message.operation);
+                    break;
+                case 'setWorkingTree':
+                    setWorkingTree(message.workingTree);
+                    break;
+                case 'setHeadTracking':
+                    setHeadTracking(message.tracking);
+                    break;
+                case 'revealCommit':
+                    revealRequestedRef.current = null;
+                    setPendingReveal(message.hash);
+                    break;
+                case 'searchResults': {
+                    if (message.requestId !== searchRequestRef.current || !searchFiltersRef.current) {
+                        break;
+                    }
+                    const { hashes, truncated } = message;
+                    const matches = new Set(hashes);
+                    if (revealFirstMatchRef.current) {
+                        revealFirstMatchRef.current = false;
+                        setSearch({ hashes, matches, truncated, current: 0 });
+                        setPendingReveal(hashes[0] ?? null);
+                    } else {
+                        // Refreshed results keep the current match when it still matches
+                        setSearch((prev) => {
+                            const current = prev ? hashes.indexOf(prev.hashes[prev.current]) : -1;
+                            return { hashes, matches, truncated, current: Math.max(current, 0) };
+                        });
+                    }
+                    break;
+                }
+            }
+        };
+        window.addEventListener('message', onMessage);
+        vscode.postMessage({ command: 'ready' });
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    const updateViewport = useCallback(() => {
+        const container = containerRef.current;
+        if (container) {
+            setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+        }
+    }, []);
+
+    useEffect(() => {
+        updateViewport();
+        window.addEventListener('resize', updateViewport);
+        return () => window.removeEventListener('resize', updateViewport);
+    }, [updateViewport, loaded]);
+
+    const observeHeader = useCallback((header: HTMLTableSectionElement | null) => {
+        if (!header) {
+            return;
+        }
+        const observer = new ResizeObserver(() => setHeaderHeight(header.offsetHeight));
+        observer.observe(header);
+        return () => observer.disconnect();
+    }, []);
+
+    const rowsScrollTop = Math.max(0, viewport.scrollTop - headerHeight);
+    const firstRow = Math.max(0, Math.floor(rowsScrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const lastRow = Math.min(commits.length, Math.ceil((rowsScrollTop + viewport.height) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+    useEffect(() => {
+        if (hasMore && !loading && pendingReveal === null && lastRow >= commits.length - LOAD_MORE_THRESHOLD) {
+            setGraph((prev) => ({ ...prev, loading: true }));
+            vscode.postMessage({ command: 'loadMore', skip: history.length });
+        }
+    }, [hasMore, loading, pendingReveal, lastRow, commits.length, history.length]);
+
+    // Scrolls the pending commit to the middle of the view, asking for the pages up to it first
+    useEffect(() => {
+        if (pendingReveal === null || loading) {
+            return;
+        }
+        const index = commitIndex.get(pendingReveal);
+        if (index !== undefined) {
+            const container = containerRef.current;
+            if (container) {
+                container.scrollTop = headerHeight + index * ROW_HEIGHT - (container.clientHeight - ROW_HEIGHT) / 2;
+            }
+            setRangeStartHash(pendingReveal);
+            setSelectedHashes(new Set([pendingReveal]));
+            setPendingReveal(null);
+        } else if (hasMore && revealRequestedRef.current !== pendingReveal) {
+            revealRequestedRef.current = pendingReveal;
+            setGraph((prev) => ({ ...prev, loading: true }));
+            vscode.postMessage({ command: 'loadMore', skip: history.length, untilHash: pendingReveal });
+        } else {
+            // Not part of the history shown
+            setPendingReveal(null);
+        }
+    }, [pendingReveal, loading, hasMore, commitIndex, history.length, headerHeight]);
+
+    const handleSearch = useCallback((filters: GitLogFilters) => {
+        searchFiltersRef.current = filters;
+        revealFirstMatchRef.current = true;
+        revealRequestedRef.current = null;
+        vscode.postMessage({ command: 'search', requestId: ++searchRequestRef.current, filters });
+    }, []);
+
+    const handleClearSearch = useCallback(() => {
+        searchFiltersRef.current = null;
+        searchRequestRef.current++;
+        revealFirstMatchRef.current = false;
+        setSearch(null);
+    }, []);
+
+    const handleStepMatch = useCallback(
+        (step: number) => {
+            if (!search || search.hashes.length === 0) {
+                return;
+            }
+            const current = (search.current + step + search.hashes.length) % search.hashes.length;
+            revealRequestedRef.current = null;
+            setSearch({ ...search, current });
+            setPendingReveal(search.hashes[current]);
+        },
+        [search],
     );
 
     const closeMenus = useCallback(() => {
         setSingleMenu(null);
         setRangeMenu(null);
+        setStashMenu(null);
     }, []);
 
     const handleRowClick = useCallback(
         (index: number, shiftKey: boolean) => {
-            if (shiftKey && rangeStartIndex !== null) {
-                const min = Math.min(rangeStartIndex, index);
-                const max = Math.max(rangeStartIndex, index);
-                const next = new Set<number>();
-                for (let i = min; i <= max; i++) {
-                    next.add(i);
-                }
-                setSelectedIndices(next);
+            const startIndex = rangeStartHash !== null ? commitIndex.get(rangeStartHash) : undefined;
+            if (shiftKey && startIndex !== undefined) {
+                const min = Math.min(startIndex, index);
+                const max = Math.max(startIndex, index);
+                // Stashes are not commits of the history, so ranges skip them
+                setSelectedHashes(
+                    new Set(
+                        commits
+                            .slice(min, max + 1)
+                            .filter((c) => !stashByHash.has(c.hash))
+                            .map((c) => c.hash),
+                    ),
+                );
             } else {
-                setRangeStartIndex(index);
-                setSelectedIndices(new Set([index]));
+                const commit = commits[index];
+                setRangeStartHash(commit.hash);
+                setSelectedHashes(new Set([commit.hash]));
+                if (historyPath) {
+                    const path = commit.fileStats?.path ?? historyPath;
+                    vscode.postMessage({ command: 'showCommitDetails', commitHash: commit.hash, path });
+                }
             }
             closeMenus();
         },
-        [rangeStartIndex, closeMenus],
+        [rangeStartHash, commitIndex, commits, stashByHash, historyPath, closeMenus],
     );
 
     const handleContextMenu = useCallback(
@@ -72,27 +342,40 @@ export function GraphView({ commits }: Props) {
             e.preventDefault();
             e.stopPropagation();
 
-            if (selectedIndices.size > 1 && selectedIndices.has(index)) {
-                const sortedIndices = Array.from(selectedIndices).sort((a, b) => a - b);
+            const hash = commits[index].hash;
+            const stash = stashByHash.get(hash);
+            if (stash) {
+                setRangeStartHash(hash);
+                setSelectedHashes(new Set([hash]));
+                setStashMenu({ x: e.pageX, y: e.pageY, stash });
+                setSingleMenu(null);
+                setRangeMenu(null);
+            } else if (selectedHashes.size > 1 && selectedHashes.has(hash)) {
+                const sortedIndices = Array.from(selectedHashes, (h) => commitIndex.get(h))
+                    .filter((i): i is number => i !== undefined)
+                    .sort((a, b) => a - b);
                 setRangeMenu({
                     x: e.pageX,
                     y: e.pageY,
-                    sortedIndices,
+                    hashes: sortedIndices.map((i) => commits[i].hash),
+                    parentHash: commits[sortedIndices[sortedIndices.length - 1]].parents[0],
                     consecutive: areCommitsConsecutive(commits, sortedIndices),
                 });
                 setSingleMenu(null);
+                setStashMenu(null);
             } else {
-                setRangeStartIndex(index);
-                setSelectedIndices(new Set([index]));
-                setSingleMenu({ x: e.pageX, y: e.pageY, hash: commits[index].hash, index });
+                setRangeStartHash(hash);
+                setSelectedHashes(new Set([hash]));
+                setSingleMenu({ x: e.pageX, y: e.pageY, hash });
                 setRangeMenu(null);
+                setStashMenu(null);
             }
         },
-        [selectedIndices, commits],
+        [selectedHashes, commitIndex, commits, stashByHash],
     );
 
     const handleSingleAction = useCallback(
-        (action: string) => {
+        (action: SingleCommitAction | 'showCommitDetails' | 'editCommitMessage') => {
             if (!singleMenu) {
                 return;
             }
@@ -108,17 +391,41 @@ export function GraphView({ commits }: Props) {
     );
 
     const handleRangeAction = useCallback(
-        (action: string) => {
+        (action: RangeCommitAction) => {
             if (!rangeMenu) {
                 return;
             }
-            const { sortedIndices } = rangeMenu;
-            const hashes = sortedIndices.map((i) => commits[i].hash);
-            const parentHash = commits[sortedIndices[sortedIndices.length - 1]].parents[0];
+            const { hashes, parentHash } = rangeMenu;
             closeMenus();
             vscode.postMessage({ command: action, hashes, parentHash });
         },
-        [rangeMenu, commits, closeMenus],
+        [rangeMenu, closeMenus],
+    );
+
+    // The older of the two selected commits goes on the left
+    const handleCompare = useCallback(() => {
+        if (!rangeMenu) {
+            return;
+        }
+        const [right, left] = rangeMenu.hashes;
+        closeMenus();
+        vscode.postMessage({ command: 'compareCommits', left, right });
+    }, [rangeMenu, closeMenus]);
+
+    const handleStashAction = useCallback(
+        (action: StashAction | 'showCommitDetails') => {
+            if (!stashMenu) {
+                return;
+            }
+            const { stash } = stashMenu;
+            closeMenus();
+            if (action === 'showCommitDetails') {
+                vscode.postMessage({ command: action, commitHash: stash.hash });
+            } else {
+                vscode.postMessage({ command: action, ref: stash.ref });
+            }
+        },
+        [stashMenu, closeMenus],
     );
 
     const handleEditConfirm = useCallback(
@@ -131,7 +438,13 @@ export function GraphView({ commits }: Props) {
         [commits],
     );
 
-    if (commits.length === 0) {
+    if (!loaded) {
+        return <div className="no-commits">Loading…</div>;
+    }
+
+    const hasLocalChanges = !!workingTree && workingTree.staged.length + workingTree.unstaged.length > 0;
+
+    if (commits.length === 0 && !hasLocalChanges) {
         return (
             <div className="no-commits">
                 <p>No commits found in this repository</p>
@@ -140,28 +453,80 @@ export function GraphView({ commits }: Props) {
     }
 
     return (
-        <div onClick={closeMenus}>
-            <div className="table-container">
+        <div className="graph-root" onClick={closeMenus}>
+            {historyPath && (
+                <div className="history-header">
+                    History of <span className="history-path">{historyPath}</span>
+                </div>
+            )}
+            {operation && (
+                <OperationBanner
+                    operation={operation}
+                    onAction={(action) => vscode.postMessage({ command: 'operationAction', action })}
+                    onOpenFile={(path) => vscode.postMessage({ command: 'openFile', path })}
+                />
+            )}
+            <FilterBar
+                matchCount={search ? search.hashes.length : null}
+                currentMatch={search?.current ?? 0}
+                truncated={search?.truncated ?? false}
+                historyPath={historyPath}
+                onSearch={handleSearch}
+                onClear={handleClearSearch}
+                onNext={() => handleStepMatch(1)}
+                onPrevious={() => handleStepMatch(-1)}
+            />
+            <div className="table-container" ref={containerRef} onScroll={updateViewport}>
                 <table>
-                    <tbody>
-                        {commits.map((commit, index) => (
-                            <CommitRow
-                                key={commit.hash}
-                                commit={commit}
-                                lane={commitLanes.get(commit.hash) ?? 0}
+                    <colgroup>
+                        <col style={{ width: canvasWidth }} />
+                        <col />
+                        <col style={{ width: 80 }} />
+                        <col style={{ width: 150 }} />
+                        <col style={{ width: 140 }} />
+                    </colgroup>
+                    <thead ref={observeHeader}>
+                        {workingTree && hasLocalChanges && (
+                            <WorkingTreeRow
+                                workingTree={workingTree}
+                                lane={(workingTree.head && layout.commitLanes.get(workingTree.head.hash)) ?? 0}
                                 canvasWidth={canvasWidth}
-                                headCommitHash={headCommitHash}
-                                isSelected={selectedIndices.has(index)}
-                                isEditing={editingHash === commit.hash}
-                                rowGraphData={rowGraphData[index]}
-                                onClick={(shiftKey) => handleRowClick(index, shiftKey)}
-                                onContextMenu={(e) => handleContextMenu(e, index)}
-                                onEditConfirm={(msg) => handleEditConfirm(commit.hash, msg)}
-                                onEditCancel={() => setEditingHash(null)}
+                                connected={!!workingTree.head && commits[0]?.hash === workingTree.head.hash}
+                                expanded={workingTreeExpanded}
+                                onToggle={() => setWorkingTreeExpanded((prev) => !prev)}
                             />
-                        ))}
+                        )}
+                    </thead>
+                    <tbody>
+                        <tr style={{ height: firstRow * ROW_HEIGHT }} />
+                        {commits.slice(firstRow, lastRow).map((commit, offset) => {
+                            const index = firstRow + offset;
+                            return (
+                                <CommitRow
+                                    key={commit.hash}
+                                    commit={commit}
+                                    stashRef={stashByHash.get(commit.hash)?.ref}
+                                    lane={layout.commitLanes.get(commit.hash) ?? 0}
+                                    canvasWidth={canvasWidth}
+                                    headCommitHash={headCommitHash}
+                                    headTracking={commit.hash === headCommitHash ? headTracking : null}
+                                    selectedRefs={selectedRefs}
+                                    isSelected={selectedHashes.has(commit.hash)}
+                                    isMatch={search?.matches.has(commit.hash) ?? false}
+                                    isCurrentMatch={search?.hashes[search.current] === commit.hash}
+                                    isEditing={editingHash === commit.hash}
+                                    rowGraphData={layout.rows[index]}
+                                    onClick={(shiftKey) => handleRowClick(index, shiftKey)}
+                                    onContextMenu={(e) => handleContextMenu(e, index)}
+                                    onEditConfirm={(msg) => handleEditConfirm(commit.hash, msg)}
+                                    onEditCancel={() => setEditingHash(null)}
+                                />
+                            );
+                        })}
+                        <tr style={{ height: (commits.length - lastRow) * ROW_HEIGHT }} />
                     </tbody>
                 </table>
+                {loading && <div className="loading-more">Loading more commits…</div>}
             </div>
 
             {singleMenu && (
@@ -178,12 +543,19 @@ export function GraphView({ commits }: Props) {
                         Copy Hash
                     </div>
                     <div className="context-menu-separator" />
+                    <div className="context-menu-item" onClick={() => handleSingleAction('checkoutCommit')}>
+                        Checkout This Commit (Detached)
+                    </div>
+                    <div className="context-menu-separator" />
                     <div className="context-menu-item" onClick={() => handleSingleAction('cherryPick')}>
                         Cherry Pick
                     </div>
                     <div className="context-menu-item" onClick={() => handleSingleAction('revertCommit')}>
                         Revert Commit
                     </div>
+                    <div className="context-menu-item" onClick={() => handleSingleAction('createTag')}>
+                        Create Tag Here...
+                    </div>
                     <div className="context-menu-separator" />
                     <div className="context-menu-item" onClick={() => handleSingleAction('editCommitMessage')}>
                         Edit Commit Message
@@ -194,12 +566,49 @@ export function GraphView({ commits }: Props) {
                 </div>
             )}
 
+            {stashMenu && (
+                <div
+                    className="context-menu"
+                    style={{ display: 'block', left: stashMenu.x, top: stashMenu.y }}
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <div className="context-menu-item" onClick={() => handleStashAction('showCommitDetails')}>
+                        Show more details
+                    </div>
+                    <div className="context-menu-separator" />
+                    <div className="context-menu-item" onClick={() => handleStashAction('applyStash')}>
+                        Apply Stash
+                    </div>
+                    <div className="context-menu-item" onClick={() => handleStashAction('popStash')}>
+                        Pop Stash
+                    </div>
+                    <div className="context-menu-item" onClick={() => handleStashAction('createBranchFromStash')}>
+                        Create Branch from Stash...
+                    </div>
+                    <div className="context-menu-separator" />
+                    <div className="context-menu-item" onClick={() => handleStashAction('renameStash')}>
+                        Rename Stash...
+                    </div>
+                    <div className="context-menu-item" onClick={() => handleStashAction('dropStash')}>
+                        Drop Stash
+                    </div>
+                </div>
+            )}
+
             {rangeMenu && (
                 <div
                     className="context-menu"
                     style={{ display: 'block', left: rangeMenu.x, top: rangeMenu.y }}
                     onClick={(e) => e.stopPropagation()}
                 >
+                    {rangeMenu.hashes.length === 2 && (
+                        <>
+                            <div className="context-menu-item" onClick={handleCompare}>
+                                Compare
+                            </div>
+                            <div className="context-menu-separator" />
+                        </>
+                    )}
                     {rangeMenu.consecutive && (
                         <>
                             <div className="context-menu-item" onClick={() => handleRangeAction('squashCommits')}>
@@ -208,6 +617,9 @@ export function GraphView({ commits }: Props) {
                             <div className="context-menu-separator" />
                         </>
                     )}
+                    <div className="context-menu-item" onClick={() => handleRangeAction('interactiveRebase')}>
+                        Interactive Rebase...
+                    </div>
                     <div className="context-menu-item" onClick={() => handleRangeAction('cherryPickRange')}>
                         Cherry-pick Commits
                     </div>
@@ -0,0 +1,65 @@
+import React from 'react';
+import { OperationAction, OperationState } from '../../shared/types';
+
+interface Props {
+    operation: OperationState;
+    onAction: (action: OperationAction) => void;
+    onOpenFile: (path: string) => void;
+}
+
+const VERBS: Record<OperationState['kind'], string> = {
+    rebase: 'Rebasing',
+    merge: 'Merging',
+    cherryPick: 'Cherry-picking',
+    revert: 'Reverting',
+};
+
+function describe(operation: OperationState): string {
+    const { kind, branch, step, total, remaining, commit } = operation;
+    let text = VERBS[kind];
+    if (kind === 'rebase' && branch) {
+        text += ` ${branch}`;
+    }
+    if (step && total) {
+        text += ` (step ${step} of ${total})`;
+    }
+    if (commit) {
+        text += `: ${commit.hash.substring(0, 7)} ${commit.subject}`;
+    }
+    if (remaining) {
+        text += ` (${remaining} commits left)`;
+    }
+    return text;
+}
+
+export function OperationBanner({ operation, onAction, onOpenFile }: Props) {
+    const { conflicts } = operation;
+    return (
+        <div className="operation-banner" onClick={(e) => e.stopPropagation()}>
+            <div className="operation-header">
+                <span className="operation-description">{describe(operation)}</span>
+                <button className="filter-button" onClick={() => onAction('continue')}>
+                    Continue
+                </button>
+                {operation.kind !== 'merge' && (
+                    <button className="filter-button" onClick={() => onAction('skip')}>
+                        Skip
+                    </button>
+                )}
+                <button className="filter-button" onClick={() => onAction('abort')}>
+                    Abort
+                </button>
+            </div>
+            {conflicts.length > 0 && (
+                <div className="operation-conflicts">
+                    {conflicts.length === 1 ? '1 conflicting file:' : `${conflicts.length} conflicting files:`}
+                    {conflicts.map((file) => (
+                        <a key={file} className="operation-conflict" title="Open file" onClick={() => onOpenFile(file)}>
+                            {file}
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { WorkingTreeChange, WorkingTreeFileAction, WorkingTreeStatus } from '../../shared/types';
+import { vscode } from '../vscodeApi';
+import { WorkingTreeCanvas } from './GraphCanvas';
+
+interface Props {
+    workingTree: WorkingTreeStatus;
+    lane: number;
+    canvasWidth: number;
+    // Draw the line down to HEAD, when HEAD is the first row
+    connected: boolean;
+    expanded: boolean;
+    onToggle: () => void;
+}
+
+// Badge letter, colour class and description for each git status letter
+const STATUSES: Record<string, { letter: string; kind: string; title: string }> = {
+    M: { letter: 'M', kind: 'modified', title: 'Modified' },
+    A: { letter: 'A', kind: 'added', title: 'Added' },
+    D: { letter: 'D', kind: 'deleted', title: 'Deleted' },
+    R: { letter: 'R', kind: 'added', title: 'Renamed' },
+    C: { letter: 'C', kind: 'added', title: 'Copied' },
+    T: { letter: 'T', kind: 'modified', title: 'Type changed' },
+    U: { letter: '!', kind: 'conflicted', title: 'Conflicted' },
+    '?': { letter: 'U', kind: 'untracked', title: 'Untracked' },
+};
+
+function postFileAction(command: WorkingTreeFileAction, paths: string[]) {
+    vscode.postMessage({ command, paths });
+}
+
+function ChangeList({
+    title,
+    changes,
+    actions,
+    fileActions,
+}: {
+    title: string;
+    changes: WorkingTreeChange[];
+    actions: React.ReactNode;
+    fileActions: (change: WorkingTreeChange) => React.ReactNode;
+}) {
+    if (changes.length === 0) {
+        return null;
+    }
+    return (
+        <div className="change-list">
+            <div className="change-list-header">
+                <span className="change-list-title">
+                    {title} ({changes.length})
+                </span>
+                {actions}
+            </div>
+            {changes.map((change) => {
+                const status = STATUSES[change.status] ?? STATUSES.M;
+                const renamed = change.oldPath ? `${change.oldPath} → ` : '';
+                return (
+                    <div key={change.path} className="change-item">
+                        <span className={`change-status status-${status.kind}`}>{status.letter}</span>
+                        <a
+                            className="change-path"
+                            title={`${status.title}: ${renamed}${change.path}`}
+                            onClick={() => vscode.postMessage({ command: 'openFile', path: change.path })}
+                        >
+                            {change.path}
+                        </a>
+                        {fileActions(change)}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+function CommitBox({ workingTree }: { workingTree: WorkingTreeStatus }) {
+    const [message, setMessage] = useState('');
+    const [amend, setAmend] = useState(false);
+    const headHash = workingTree.head?.hash;
+
+    // A new HEAD means the commit went through
+    useEffect(() => {
+        setMessage('');
+        setAmend(false);
+    }, [headHash]);
+
+    const toggleAmend = (checked: boolean) => {
+        setAmend(checked);
+        if (checked && !message.trim()) {
+            setMessage(workingTree.head?.message ?? '');
+        }
+    };
+
+    const commit = () => {
+        if (message.trim()) {
+            vscode.postMessage({ command: 'commitChanges', message, amend });
+        }
+    };
+
+    return (
+        <div className="commit-box">
+            <textarea
+                className="commit-message"
+                rows={3}
+                placeholder="Commit message (Ctrl+Enter to commit)"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                        e.preventDefault();
+                        commit();
+                    }
+                }}
+            />
+            <div className="commit-actions">
+                <label className="commit-amend">
+                    <input
+                        type="checkbox"
+                        checked={amend}
+                        disabled={!workingTree.head}
+                        onChange={(e) => toggleAmend(e.target.checked)}
+                    />
+                    Amend last commit
+                </label>
+                <span className="commit-buttons">
+                    <button
+                        className="filter-button"
+                        title="Stash the local changes"
+                        onClick={() => vscode.postMessage({ command: 'stashChanges' })}
+                    >
+                        Stash...
+                    </button>
+                    <button className="filter-button" disabled={!message.trim()} onClick={commit}>
+                        {amend ? 'Amend' : 'Commit'}
+                    </button>
+                </span>
+            </div>
+        </div>
+    );
+}
+
+// The "Uncommitted changes" row above HEAD, which expands into the staged and unstaged files and a
+// commit box. Rendered inside the table header so the commit rows below keep their fixed height.
+export function WorkingTreeRow({ workingTree, lane, canvasWidth, connected, expanded, onToggle }: Props) {
+    const { staged, unstaged } = workingTree;
+    const summary = [staged.length && `${staged.length} staged`, unstaged.length && `${unstaged.length} unstaged`]
+        .filter(Boolean)
+        .join(', ');
+
+    return (
+        <>
+            <tr className="working-tree-row" onClick={onToggle}>
+                <td className="graph-cell">
+                    <WorkingTreeCanvas lane={lane} canvasWidth={canvasWidth} connected={connected} />
+                </td>
+                <td className="message-cell">
+                    <div className="message-content">
+                        <span className="working-tree-chevron">{expanded ? '▾' : '▸'}</span>
+                        <span className="message-text">Uncommitted changes</span>
+                        <span className="working-tree-summary">{summary}</span>
+                    </div>
+                </td>
+                <td className="hash-cell">*</td>
+                <td />
+                <td />
+            </tr>
+            {expanded && (
+                <tr className="working-tree-details">
+                    <td colSpan={5} onClick={(e) => e.stopPropagation()}>
+                        <ChangeList
+                            title="Staged Changes"
+                            changes={staged}
+                            actions={
+                                <button
+                                    className="filter-button"
+                                    onClick={() =>
+                                        postFileAction(
+                                            'unstageFiles',
+                                            staged.map((c) => c.path),
+                                        )
+                                    }
+                                >
+                                    Unstage All
+                                </button>
+                            }
+                            fileActions={(change) => (
+                                <button
+                                    className="filter-button"
+                                    title="Unstage"
+                                    onClick={() => postFileAction('unstageFiles', [change.path])}
+                                >
+                                    −
+                                </button>
+                            )}
+                        />
+                        <ChangeList
+                            title="Changes"
+                            changes={unstaged}
+                            actions={
+                                <>
+                                    <button
+                                        className="filter-button"
+                                        onClick={() =>
+                                            postFileAction(
+                                                'discardChanges',
+                                                unstaged.map((c) => c.path),
+                                            )
+                                        }
+                                    >
+                                        Discard All
+                                    </button>
+                                    <button
+                                        className="filter-button"
+                                        onClick={() =>
+                                            postFileAction(
+                                                'stageFiles',
+                                                unstaged.map((c) => c.path),
+                                            )
+                                        }
+                                    >
+                                        Stage All
+                                    </button>
+                                </>
+                            }
+                            fileActions={(change) => (
+                                <>
+                                    <button
+                                        className="filter-button"
+                                        title="Discard changes"
+                                        onClick={() => postFileAction('discardChanges', [change.path])}
+                                    >
+                                        ↶
+                                    </button>
+                                    <button
+                                        className="filter-button"
+                                        title="Stage"
+                                        onClick={() => postFileAction('stageFiles', [change.path])}
+                                    >
+                                        +
+                                    </button>
+                                </>
+                            )}
+                        />
+                        <CommitBox workingTree={workingTree} />
+                    </td>
+                </tr>
+            )}
+        </>
+    );
+}
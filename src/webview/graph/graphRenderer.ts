@@ -1,4 +1,4 @@
-import { GitCommit } from '../types';
+import { GitCommit, GitStash } from '../../shared/types';
 
 export interface RowGraphData {
     passthroughLanes: number[];
@@ -8,114 +8,130 @@ export interface RowGraphData {
     mergeOutgoingToLanes: number[];
 }
 
-export function calculateLanes(commits: GitCommit[]): Map<string, number> {
-    const commitLanes = new Map<string, number>();
-    const reservedLanes = new Map<string, number>();
-    let nextLane = 0;
+export interface GraphLayout {
+    commitLanes: Map<string, number>;
+    rows: RowGraphData[];
+    laneCount: number;
+    // Carried over between pages: lanes reserved for parents that have not been laid out yet,
+    // and the lanes of the already laid out children pointing at each of those parents.
+    reservedLanes: Map<string, number>;
+    openEdges: Map<string, number[]>;
+    nextLane: number;
+}
+
+export function createGraphLayout(): GraphLayout {
+    return {
+        commitLanes: new Map(),
+        rows: [],
+        laneCount: 1,
+        reservedLanes: new Map(),
+        openEdges: new Map(),
+        nextLane: 0,
+    };
+}
+
+// Lays out the next page of commits below the ones already in the layout, in a single
+// O(n * open_edges) pass. Rows that were laid out before are never touched again: an edge to a
+// parent that has not been loaded yet is drawn as a passthrough down to the last loaded row and
+// picked up again when the parent arrives. Returns a new layout; the given one is left intact.
+export function extendGraphLayout(layout: GraphLayout, commits: GitCommit[]): GraphLayout {
+    const commitLanes = new Map(layout.commitLanes);
+    const reservedLanes = new Map(layout.reservedLanes);
+    const openEdges = new Map(layout.openEdges);
+    const rows = layout.rows.slice();
+    let nextLane = layout.nextLane;
+    let laneCount = layout.laneCount;
 
     for (const commit of commits) {
-        let assignedLane: number;
+        let lane: number;
 
         if (reservedLanes.has(commit.hash)) {
-            assignedLane = reservedLanes.get(commit.hash)!;
+            lane = reservedLanes.get(commit.hash)!;
             reservedLanes.delete(commit.hash);
         } else {
-            assignedLane = nextLane++;
+            lane = nextLane++;
         }
 
-        commitLanes.set(commit.hash, assignedLane);
+        commitLanes.set(commit.hash, lane);
+
+        const row: RowGraphData = {
+            passthroughLanes: [],
+            hasIncoming: false,
+            hasOutgoing: commit.parents.length > 0,
+            mergeIncomingFromLanes: [],
+            mergeOutgoingToLanes: [],
+        };
+
+        // Close the edges coming from children above
+        const childLanes = openEdges.get(commit.hash);
+        if (childLanes) {
+            row.hasIncoming = true;
+            row.mergeIncomingFromLanes = childLanes.filter((l) => l !== lane);
+            openEdges.delete(commit.hash);
+        }
 
-        if (commit.parents.length > 0) {
-            const firstParent = commit.parents[0];
-            if (!reservedLanes.has(firstParent)) {
-                reservedLanes.set(firstParent, assignedLane);
-            }
-            for (let j = 1; j < commit.parents.length; j++) {
-                const parent = commit.parents[j];
-                if (!reservedLanes.has(parent)) {
+        // Every edge still open crosses this row on its parent's lane
+        const passthrough = new Set<number>();
+        for (const parent of openEdges.keys()) {
+            passthrough.add(reservedLanes.get(parent)!);
+        }
+        passthrough.delete(lane);
+        row.passthroughLanes = Array.from(passthrough);
+
+        for (let j = 0; j < commit.parents.length; j++) {
+            const parent = commit.parents[j];
+            if (!reservedLanes.has(parent)) {
+                let parentLane = lane;
+                if (j > 0) {
                     const usedLanes = new Set(reservedLanes.values());
-                    let newLane = 0;
-                    while (usedLanes.has(newLane)) {
-                        newLane++;
+                    parentLane = 0;
+                    while (usedLanes.has(parentLane)) {
+                        parentLane++;
                     }
-                    reservedLanes.set(parent, newLane);
-                    nextLane = Math.max(nextLane, newLane + 1);
+                    nextLane = Math.max(nextLane, parentLane + 1);
                 }
+                reservedLanes.set(parent, parentLane);
             }
-        }
-    }
-
-    return commitLanes;
-}
 
-// Precomputes all per-row rendering data in a single O(n * avg_connections) pass,
-// eliminating the O(n²) work previously done inside each GraphCanvas useEffect.
-export function calculateRowGraphData(commits: GitCommit[], commitLanes: Map<string, number>): RowGraphData[] {
-    const n = commits.length;
-    if (n === 0) {
-        return [];
-    }
-
-    const commitIndex = new Map<string, number>();
-    commits.forEach((c, i) => commitIndex.set(c.hash, i));
-
-    // Build reverse map: commit hash → indices of commits that have it as a parent
-    const childMap = new Map<string, number[]>();
-    for (let i = 0; i < n; i++) {
-        for (const parent of commits[i].parents) {
-            let arr = childMap.get(parent);
-            if (!arr) {
-                arr = [];
-                childMap.set(parent, arr);
+            const parentLane = reservedLanes.get(parent)!;
+            if (parentLane !== lane) {
+                row.mergeOutgoingToLanes.push(parentLane);
             }
-            arr.push(i);
-        }
-    }
 
-    const passthroughSets: Set<number>[] = Array.from({ length: n }, () => new Set<number>());
-    const rows: RowGraphData[] = commits.map(() => ({
-        passthroughLanes: [],
-        hasIncoming: false,
-        hasOutgoing: false,
-        mergeIncomingFromLanes: [],
-        mergeOutgoingToLanes: [],
-    }));
-
-    for (let i = 0; i < n; i++) {
-        const commit = commits[i];
-        const lane = commitLanes.get(commit.hash)!;
-
-        // hasIncoming: any child commit above (index < i) connects to this commit
-        rows[i].hasIncoming = (childMap.get(commit.hash) ?? []).some((j) => j < i);
-
-        for (const parent of commit.parents) {
-            const j = commitIndex.get(parent);
-            if (j === undefined || j <= i) {
-                continue;
-            }
+            openEdges.set(parent, [...(openEdges.get(parent) ?? []), lane]);
+        }
 
-            rows[i].hasOutgoing = true;
-            const parentLane = commitLanes.get(parent)!;
+        laneCount = Math.max(laneCount, lane + 1, ...row.passthroughLanes.map((l) => l + 1));
+        rows.push(row);
+    }
 
-            // Mark parent's lane as a passthrough for all rows between child and parent
-            for (let r = i + 1; r < j; r++) {
-                passthroughSets[r].add(parentLane);
-            }
+    return { commitLanes, rows, laneCount, reservedLanes, openEdges, nextLane };
+}
 
-            // Record bezier endpoints when lanes differ
-            if (parentLane !== lane) {
-                rows[i].mergeOutgoingToLanes.push(parentLane);
-                rows[j].mergeIncomingFromLanes.push(lane);
+// Places each stash right above the commit it was made on, as a row whose only parent is that
+// commit; the index and untracked files commits of the stash are left out. Stashes whose base is
+// not in the given commits are left out too, so this can run on each page as it arrives.
+export function insertStashes(commits: GitCommit[], stashes: GitStash[]): GitCommit[] {
+    if (stashes.length === 0) {
+        return commits;
+    }
+    const rows: GitCommit[] = [];
+    for (const commit of commits) {
+        for (const stash of stashes) {
+            if (stash.base === commit.hash) {
+                rows.push({
+                    hash: stash.hash,
+                    shortHash: stash.hash.substring(0, 7),
+                    message: stash.message,
+                    date: stash.date,
+                    author: stash.author,
+                    parents: [stash.base],
+                    refs: [],
+                });
             }
         }
+        rows.push(commit);
     }
-
-    // Finalise passthrough lanes, excluding each row's own commit lane
-    for (let r = 0; r < n; r++) {
-        const commitLane = commitLanes.get(commits[r].hash)!;
-        rows[r].passthroughLanes = Array.from(passthroughSets[r]).filter((l) => l !== commitLane);
-    }
-
     return rows;
 }
 
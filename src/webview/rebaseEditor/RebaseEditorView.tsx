@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { RebaseAction, RebaseEditorData, RebaseEditorMessage, RebaseEntry } from '../../shared/types';
+import { vscode } from '../vscodeApi';
+
+const ACTIONS: { value: RebaseAction; label: string }[] = [
+    { value: 'pick', label: 'Pick' },
+    { value: 'reword', label: 'Reword' },
+    { value: 'edit', label: 'Edit' },
+    { value: 'squash', label: 'Squash' },
+    { value: 'fixup', label: 'Fixup' },
+    { value: 'drop', label: 'Drop' },
+];
+
+function postMessage(message: RebaseEditorMessage) {
+    vscode.postMessage(message);
+}
+
+// Whether an entry's message ends up in the history: a reworded commit, a squashed one, or the
+// commit a squash is folded into
+function isMessageEditable(entries: RebaseEntry[], index: number): boolean {
+    const { action } = entries[index];
+    if (action === 'reword' || action === 'squash') {
+        return true;
+    }
+    if (action !== 'pick' && action !== 'edit') {
+        return false;
+    }
+    const next = entries.slice(index + 1).find((e) => e.action !== 'drop');
+    return next?.action === 'squash';
+}
+
+function validate(entries: RebaseEntry[]): string | null {
+    const kept = entries.filter((e) => e.action !== 'drop');
+    if (kept.length === 0) {
+        return 'Every commit is dropped.';
+    }
+    if (kept[0].action === 'squash' || kept[0].action === 'fixup') {
+        return 'The first commit cannot be squashed: there is no commit before it to squash into.';
+    }
+    if (kept.some((e) => e.action === 'reword' && !e.message.trim())) {
+        return 'A reworded commit needs a message.';
+    }
+    return null;
+}
+
+export function RebaseEditorView({ data }: { data: RebaseEditorData }) {
+    const [entries, setEntries] = useState(data.entries);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const error = useMemo(() => validate(entries), [entries]);
+    const todo = entries.map((e) => `${e.action} ${e.shortHash} ${e.subject}`).join('\n');
+
+    const update = (index: number, changes: Partial<RebaseEntry>) =>
+        setEntries((prev) => prev.map((e, i) => (i === index ? { ...e, ...changes } : e)));
+
+    const move = (from: number, to: number) =>
+        setEntries((prev) => {
+            const next = [...prev];
+            const [moved] = next.splice(from, 1);
+            next.splice(to, 0, moved);
+            return next;
+        });
+
+    const endDrag = () => {
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    return (
+        <div>
+            <div className="title">Rebase onto {data.upstreamLabel}</div>
+            <div className="hint">
+                Commits are applied from top to bottom. Drag a commit to reorder it and choose what to do with it.
+            </div>
+            {data.merges > 0 && (
+                <div className="hint">
+                    {data.merges === 1 ? 'A merge commit is' : `${data.merges} merge commits are`} left out: the commits
+                    they merged are replayed one after another instead.
+                </div>
+            )}
+
+            {entries.map((entry, index) => (
+                <div
+                    key={entry.hash}
+                    className={[
+                        'entry',
+                        index === dragIndex ? 'dragging' : '',
+                        index === dropIndex && dropIndex !== dragIndex ? 'drop-target' : '',
+                        entry.action === 'drop' ? 'dropped' : '',
+                    ].join(' ')}
+                    onDragOver={(e) => {
+                        if (dragIndex !== null) {
+                            e.preventDefault();
+                            setDropIndex(index);
+                        }
+                    }}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        if (dragIndex !== null) {
+                            move(dragIndex, index);
+                        }
+                        endDrag();
+                    }}
+                >
+                    <div
+                        className="entry-header"
+                        draggable
+                        onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDragIndex(index);
+                        }}
+                        onDragEnd={endDrag}
+                    >
+                        <span className="drag-handle" title="Drag to reorder">
+                            ⠿
+                        </span>
+                        <select
+                            value={entry.action}
+                            onChange={(e) => update(index, { action: e.target.value as RebaseAction })}
+                        >
+                            {ACTIONS.map(({ value, label }) => (
+                                <option key={value} value={value}>
+                                    {label}
+                                </option>
+                            ))}
+                        </select>
+                        <span className="entry-hash">{entry.shortHash}</span>
+                        <span className="entry-subject" title={entry.message}>
+                            {entry.subject}
+                        </span>
+                    </div>
+                    {isMessageEditable(entries, index) && (
+                        <textarea
+                            rows={Math.min(8, Math.max(2, entry.message.split('\n').length))}
+                            value={entry.message}
+                            placeholder="Commit message"
+                            onChange={(e) => update(index, { message: e.target.value })}
+                        />
+                    )}
+                </div>
+            ))}
+
+            <div className="section-title">Todo</div>
+            <pre className="todo">{todo}</pre>
+
+            {error && <div className="error">{error}</div>}
+            <div className="actions">
+                <button disabled={!!error} onClick={() => postMessage({ command: 'start', entries })}>
+                    Start Rebase
+                </button>
+                <button className="secondary" onClick={() => postMessage({ command: 'cancel' })}>
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,12 @@
+import { createRoot } from 'react-dom/client';
+import { RebaseEditorData } from '../../shared/types';
+import { RebaseEditorView } from './RebaseEditorView';
+
+declare global {
+    interface Window {
+        __REBASE_EDITOR__: RebaseEditorData;
+    }
+}
+
+const root = document.getElementById('root')!;
+createRoot(root).render(<RebaseEditorView data={window.__REBASE_EDITOR__} />);
@@ -1,16 +1,5 @@
 import * as vscode from 'vscode';
-import { GitCommit } from './gitOperations';
-
-export interface CommitDetailsData {
-    fullHash: string;
-    authorEmail: string;
-    authorName: string;
-    authorDate: string;
-    commitDate: string;
-    subject: string;
-    body: string;
-    patch: string;
-}
+import { CommitDetailsData, RebaseEditorData } from './shared/types';
 
 function getNonce(): string {
     let text = '';
@@ -21,7 +10,7 @@ function getNonce(): string {
     return text;
 }
 
-export function getHtmlForWebview(webview: vscode.Webview, commits: GitCommit[], extensionUri: vscode.Uri): string {
+export function getHtmlForWebview(webview: vscode.Webview, extensionUri: vscode.Uri): string {
     const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'graph', 'index.js'));
     const nonce = getNonce();
 
@@ -37,12 +26,93 @@ export function getHtmlForWebview(webview: vscode.Webview, commits: GitCommit[],
             font-family: var(--vscode-font-family);
             color: var(--vscode-foreground);
             background-color: var(--vscode-editor-background);
-            padding: 10px;
+            padding: 0;
             margin: 0;
+            overflow: hidden;
+        }
+        .graph-root { display: flex; flex-direction: column; height: 100vh; }
+        .table-container { flex: 1; min-height: 0; overflow: auto; box-sizing: border-box; padding: 10px; }
+        .history-header {
+            padding: 6px 10px; font-size: 12px; color: var(--vscode-descriptionForeground);
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .history-path { font-family: var(--vscode-editor-font-family); color: var(--vscode-foreground); }
+        .file-stats { flex-shrink: 0; margin-left: auto; font-size: 11px; white-space: nowrap; }
+        .file-stats .added { color: var(--vscode-gitDecoration-addedResourceForeground); }
+        .file-stats .removed { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+        .operation-banner {
+            padding: 6px 10px; font-size: 12px; border-bottom: 1px solid var(--vscode-panel-border);
+            background-color: var(--vscode-inputValidation-warningBackground);
+            border-left: 3px solid var(--vscode-inputValidation-warningBorder);
+        }
+        .operation-header { display: flex; align-items: center; gap: 4px; }
+        .operation-description { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .operation-conflicts { display: flex; flex-wrap: wrap; gap: 2px 8px; margin-top: 4px; }
+        .operation-conflict {
+            font-family: var(--vscode-editor-font-family); color: var(--vscode-textLink-foreground); cursor: pointer;
+        }
+        .operation-conflict:hover { text-decoration: underline; }
+        .filter-bar {
+            display: flex; flex-wrap: wrap; align-items: center; gap: 4px; padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border); font-size: 12px;
+        }
+        .filter-input {
+            background-color: var(--vscode-input-background); color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent); border-radius: 2px;
+            font: inherit; padding: 2px 6px; width: 110px; outline: none;
+        }
+        .filter-input:focus { border-color: var(--vscode-focusBorder); }
+        .filter-input:disabled { opacity: 0.6; }
+        .filter-input::placeholder { color: var(--vscode-input-placeholderForeground); }
+        .filter-input-wide { width: 180px; }
+        .filter-input-narrow { width: 70px; }
+        .filter-input-date { width: auto; color-scheme: dark light; }
+        .filter-separator, .filter-status { color: var(--vscode-descriptionForeground); }
+        .filter-status { margin: 0 4px; white-space: nowrap; }
+        .filter-button {
+            background-color: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground);
+            border: none; border-radius: 2px; font: inherit; padding: 2px 8px; cursor: pointer;
+        }
+        .filter-button:hover:not(:disabled) { background-color: var(--vscode-button-secondaryHoverBackground); }
+        .filter-button:disabled { opacity: 0.5; cursor: default; }
+        table { width: 100%; border-collapse: collapse; font-size: 12px; table-layout: fixed; }
+        .working-tree-row { height: 28px; cursor: pointer; font-style: italic; }
+        .working-tree-row:hover { background-color: var(--vscode-list-hoverBackground); }
+        .working-tree-chevron { flex-shrink: 0; width: 10px; color: var(--vscode-descriptionForeground); font-style: normal; }
+        .working-tree-summary { flex-shrink: 0; font-size: 11px; color: var(--vscode-descriptionForeground); }
+        .working-tree-details > td {
+            padding: 6px 10px 10px 28px; font-weight: normal; text-align: left;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .change-list { margin-bottom: 8px; }
+        .change-list-header { display: flex; align-items: center; gap: 4px; margin-bottom: 2px; }
+        .change-list-title {
+            flex: 1; font-size: 11px; font-weight: 600; text-transform: uppercase;
+            letter-spacing: 0.06em; color: var(--vscode-descriptionForeground);
+        }
+        .change-item { display: flex; align-items: center; gap: 6px; padding: 1px 0; }
+        .change-item .filter-button { padding: 0 6px; visibility: hidden; }
+        .change-item:hover .filter-button { visibility: visible; }
+        .change-status { width: 12px; font-family: var(--vscode-editor-font-family); font-weight: 600; text-align: center; }
+        .status-modified { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+        .status-added { color: var(--vscode-gitDecoration-addedResourceForeground); }
+        .status-deleted { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+        .status-untracked { color: var(--vscode-gitDecoration-untrackedResourceForeground); }
+        .status-conflicted { color: var(--vscode-gitDecoration-conflictingResourceForeground); }
+        .change-path { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; cursor: pointer; }
+        .change-path:hover { text-decoration: underline; }
+        .commit-box { display: flex; flex-direction: column; gap: 4px; max-width: 600px; }
+        .commit-message {
+            background-color: var(--vscode-input-background); color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent); border-radius: 2px;
+            font: inherit; padding: 4px 6px; resize: vertical; outline: none;
         }
-        .table-container { overflow-x: auto; }
-        table { width: 100%; border-collapse: collapse; font-size: 12px; }
-        td { padding: 4px 8px; }
+        .commit-message:focus { border-color: var(--vscode-focusBorder); }
+        .commit-actions { display: flex; align-items: center; justify-content: space-between; }
+        .commit-buttons { display: flex; gap: 4px; }
+        .commit-amend { display: flex; align-items: center; gap: 4px; color: var(--vscode-descriptionForeground); }
+        tbody tr { height: 28px; }
+        td { padding: 4px 8px; overflow: hidden; }
         tbody tr:hover { background-color: var(--vscode-list-hoverBackground); }
         tbody tr { cursor: pointer; }
         .graph-cell { padding: 0; width: 1px; }
@@ -53,9 +123,9 @@ export function getHtmlForWebview(webview: vscode.Webview, commits: GitCommit[],
             font-weight: 500;
             white-space: nowrap;
             font-size: 11px;
-            width: 80px;
         }
-        .message-cell { font-size: 12px; display: flex; align-items: center; gap: 6px; overflow: hidden; }
+        .message-cell { font-size: 12px; }
+        .message-content { display: flex; align-items: center; gap: 6px; overflow: hidden; }
         .message-text { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
         .refs-container { display: flex; gap: 4px; flex-shrink: 0; align-items: center; }
         .ref-badge {
@@ -82,12 +152,20 @@ export function getHtmlForWebview(webview: vscode.Webview, commits: GitCommit[],
             border-color: var(--vscode-gitDecoration-submoduleResourceForeground);
             color: var(--vscode-gitDecoration-submoduleResourceForeground);
         }
+        .ref-stash {
+            background-color: transparent; border-style: dashed;
+            border-color: var(--vscode-descriptionForeground);
+            color: var(--vscode-descriptionForeground);
+        }
+        .row-stash .message-text { font-style: italic; color: var(--vscode-descriptionForeground); }
+        .ref-tracking { margin-left: 4px; }
+        .ref-dimmed { opacity: 0.4; }
         .author-cell {
             white-space: nowrap; color: var(--vscode-descriptionForeground);
-            font-size: 11px; width: 150px; max-width: 150px;
-            overflow: hidden; text-overflow: ellipsis;
+            font-size: 11px; text-overflow: ellipsis;
         }
-        .date-cell { white-space: nowrap; color: var(--vscode-descriptionForeground); font-size: 11px; width: 140px; }
+        .date-cell { white-space: nowrap; color: var(--vscode-descriptionForeground); font-size: 11px; }
+        .loading-more { text-align: center; padding: 8px; color: var(--vscode-descriptionForeground); font-size: 11px; }
         .no-commits { text-align: center; padding: 40px; color: var(--vscode-descriptionForeground); }
         .context-menu {
             position: fixed;
@@ -115,11 +193,12 @@ export function getHtmlForWebview(webview: vscode.Webview, commits: GitCommit[],
         }
         tr.row-selected { background-color: var(--vscode-list-inactiveSelectionBackground); }
         tr.row-selected:hover { background-color: var(--vscode-list-activeSelectionBackground); }
+        tr.row-match { background-color: var(--vscode-editor-findMatchHighlightBackground); }
+        tr.row-match-current { background-color: var(--vscode-editor-findMatchBackground); }
     </style>
 </head>
 <body>
     <div id="root"></div>
-    <script nonce="${nonce}">window.__COMMITS__ = ${JSON.stringify(commits)};</script>
     <script nonce="${nonce}" src="${scriptUri}"></script>
 </body>
 </html>`;
@@ -153,7 +232,18 @@ export function getCommitDetailsHtml(
   .meta { display: grid; grid-template-columns: 90px 1fr; gap: 4px 8px; margin-bottom: 24px; font-size: 12px; }
   .meta-label { color: var(--vscode-descriptionForeground); font-weight: 500; text-align: right; padding-top: 1px; }
   .meta-value { word-break: break-all; }
-  .meta-value.hash { font-family: var(--vscode-editor-font-family); font-size: 11px; color: var(--vscode-textPreformat-foreground); }
+  .meta-value .hash { font-family: var(--vscode-editor-font-family); font-size: 11px; color: var(--vscode-textPreformat-foreground); }
+  .meta-empty { color: var(--vscode-descriptionForeground); }
+  .meta-action { margin-left: 12px; font-size: 11px; }
+  .meta-action, .commit-link { color: var(--vscode-textLink-foreground); text-decoration: none; }
+  .meta-action:hover, .commit-link:hover { text-decoration: underline; }
+  .commit-link { margin-right: 10px; font-family: var(--vscode-editor-font-family); font-size: 11px; }
+  .ref-list { display: flex; flex-wrap: wrap; gap: 4px; align-items: center; }
+  .ref-badge {
+    padding: 0 6px; border-radius: 8px; font-size: 11px;
+    background-color: var(--vscode-badge-background); color: var(--vscode-badge-foreground);
+  }
+  .ref-badge.ref-tag { background-color: var(--vscode-gitDecoration-addedResourceForeground); color: var(--vscode-editor-background); }
   .section-title {
     font-size: 11px; font-weight: 600; text-transform: uppercase;
     letter-spacing: 0.06em; color: var(--vscode-descriptionForeground); margin-bottom: 10px;
@@ -169,18 +259,75 @@ export function getCommitDetailsHtml(
   .chevron { font-size: 10px; color: var(--vscode-descriptionForeground); transition: transform 0.15s; }
   details[open] .chevron { transform: rotate(90deg); }
   .file-name { flex: 1; }
+  summary .file-name:hover { text-decoration: underline; }
+  .file-badge {
+    flex-shrink: 0; padding: 0 6px; border-radius: 8px; font-family: var(--vscode-font-family); font-size: 10px;
+    background-color: var(--vscode-badge-background); color: var(--vscode-badge-foreground);
+  }
+  .file-badge-added { background-color: var(--vscode-gitDecoration-addedResourceForeground); color: var(--vscode-editor-background); }
+  .file-badge-deleted { background-color: var(--vscode-gitDecoration-deletedResourceForeground); color: var(--vscode-editor-background); }
+  .file-badge-renamed { background-color: var(--vscode-gitDecoration-renamedResourceForeground); color: var(--vscode-editor-background); }
+  .file-actions { display: flex; gap: 4px; visibility: hidden; }
+  summary:hover .file-actions { visibility: visible; }
+  .file-action {
+    background-color: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground);
+    border: none; border-radius: 2px; padding: 0 6px; font-family: var(--vscode-font-family); font-size: 11px; cursor: pointer;
+  }
+  .file-action:hover { background-color: var(--vscode-button-secondaryHoverBackground); }
   .file-stats { font-size: 11px; white-space: nowrap; }
   .added { color: var(--vscode-gitDecoration-addedResourceForeground); }
   .removed { color: var(--vscode-gitDecoration-deletedResourceForeground); }
-  pre.diff-content {
-    margin: 0; padding: 8px 0; font-family: var(--vscode-editor-font-family);
-    font-size: 12px; overflow-x: auto; line-height: 1.6; background-color: var(--vscode-editor-background);
+  .diff-header { display: flex; align-items: center; justify-content: space-between; gap: 8px; margin-bottom: 10px; }
+  .diff-header .section-title { margin-bottom: 0; }
+  .diff-toolbar { display: flex; align-items: center; gap: 4px; }
+  .diff-toolbar .parent-select { margin: 0 8px 0 0; }
+  .diff-toolbar button {
+    background-color: var(--vscode-button-background); color: var(--vscode-button-foreground);
+    border: none; border-radius: 2px; padding: 1px 10px; font: inherit; font-size: 12px; cursor: pointer;
   }
-  .diff-line { display: block; padding: 0 12px; white-space: pre; }
+  .diff-toolbar button:hover { background-color: var(--vscode-button-hoverBackground); }
+  .diff-toolbar button.secondary {
+    background-color: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground);
+  }
+  .diff-toolbar button.secondary:hover { background-color: var(--vscode-button-secondaryHoverBackground); }
+  .diff-toolbar select {
+    margin-left: 8px; background-color: var(--vscode-dropdown-background); color: var(--vscode-dropdown-foreground);
+    border: 1px solid var(--vscode-dropdown-border, transparent); border-radius: 2px; font: inherit; font-size: 12px;
+  }
+  .diff-content { overflow-x: auto; background-color: var(--vscode-editor-background); }
+  .diff-table {
+    border-collapse: collapse; font-family: var(--vscode-editor-font-family); font-size: 12px; line-height: 1.6;
+  }
+  .diff-unified { min-width: 100%; }
+  .diff-split { width: 100%; table-layout: fixed; }
+  .diff-number-column { width: 48px; }
+  .diff-table td { padding: 0 8px; vertical-align: top; }
+  .diff-number { text-align: right; color: var(--vscode-editorLineNumber-foreground); user-select: none; }
+  .diff-unified .diff-number { width: 1%; white-space: nowrap; }
+  .diff-text { white-space: pre; }
+  .diff-split .diff-text { white-space: pre-wrap; word-break: break-all; }
+  .diff-split .diff-number + .diff-text { border-right: 1px solid var(--vscode-panel-border); }
+  .diff-split td:last-child { border-right: none; }
+  .diff-sign { display: inline-block; width: 1.5ch; user-select: none; }
   .diff-add { background-color: var(--vscode-diffEditor-insertedLineBackground, rgba(70,150,70,0.15)); color: var(--vscode-gitDecoration-addedResourceForeground); }
   .diff-del { background-color: var(--vscode-diffEditor-removedLineBackground, rgba(150,70,70,0.15)); color: var(--vscode-gitDecoration-deletedResourceForeground); }
-  .diff-hunk { color: var(--vscode-gitDecoration-untrackedResourceForeground); font-weight: 600; }
+  .diff-add .word-changed { background-color: var(--vscode-diffEditor-insertedTextBackground, rgba(70,150,70,0.35)); }
+  .diff-del .word-changed { background-color: var(--vscode-diffEditor-removedTextBackground, rgba(150,70,70,0.35)); }
+  .diff-syntax .diff-add, .diff-syntax .diff-del { color: var(--vscode-editor-foreground); }
+  .tok-comment { color: var(--vscode-descriptionForeground); font-style: italic; }
+  .tok-string { color: var(--vscode-debugTokenExpression-string, #ce9178); }
+  .tok-keyword { color: var(--vscode-debugTokenExpression-name, #c586c0); }
+  .tok-literal { color: var(--vscode-debugTokenExpression-boolean, #4e94ce); }
+  .tok-number { color: var(--vscode-debugTokenExpression-number, #b5cea8); }
+  .tok-function { color: var(--vscode-symbolIcon-functionForeground, #dcdcaa); }
+  .tok-variable { color: var(--vscode-symbolIcon-variableForeground, #75beff); }
+  .diff-blank { background-color: var(--vscode-diffEditor-diagonalFill, rgba(128,128,128,0.08)); }
+  .diff-hunk td { color: var(--vscode-gitDecoration-untrackedResourceForeground); font-weight: 600; padding: 4px 12px; }
   .diff-ctx { color: var(--vscode-foreground); }
+  .no-newline { margin-left: 4px; color: var(--vscode-descriptionForeground); }
+  .diff-note { margin: 0; padding: 8px 12px; color: var(--vscode-descriptionForeground); font-size: 12px; font-style: italic; }
+  .diff-truncated td { padding: 4px 12px; color: var(--vscode-descriptionForeground); font-family: var(--vscode-font-family); }
+  .diff-truncated a, .diff-note a { color: var(--vscode-textLink-foreground); }
   .no-changes { color: var(--vscode-descriptionForeground); font-size: 12px; padding: 8px 0; }
   .copyable { cursor: pointer; border-radius: 3px; padding: 1px 3px; margin: -1px -3px; }
   .copyable:hover { background-color: var(--vscode-list-hoverBackground); }
@@ -201,3 +348,126 @@ export function getCommitDetailsHtml(
 </body>
 </html>`;
 }
+
+export function getCompareHtml(webview: vscode.Webview, extensionUri: vscode.Uri): string {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'compare', 'index.js'));
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';">
+<title>Compare</title>
+<style>
+  body {
+    font-family: var(--vscode-font-family); font-size: 13px;
+    color: var(--vscode-foreground); background-color: var(--vscode-editor-background);
+    margin: 0; padding: 20px 24px; line-height: 1.5;
+  }
+  .title { font-size: 16px; font-weight: 600; margin: 0 0 8px 0; font-family: var(--vscode-editor-font-family); }
+  .hint { color: var(--vscode-descriptionForeground); font-size: 12px; }
+  .mode { display: flex; align-items: center; gap: 4px; margin-bottom: 20px; }
+  .mode .hint { margin-left: 8px; }
+  .section-title {
+    font-size: 11px; font-weight: 600; text-transform: uppercase;
+    letter-spacing: 0.06em; color: var(--vscode-descriptionForeground); margin-bottom: 10px;
+  }
+  .file-row {
+    display: flex; align-items: center; gap: 10px; padding: 3px 8px; border-radius: 3px; cursor: pointer;
+    font-size: 12px; font-family: var(--vscode-editor-font-family);
+  }
+  .file-row:hover { background-color: var(--vscode-list-hoverBackground); }
+  .file-status { width: 12px; font-weight: 600; text-align: center; }
+  .file-name { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .file-old-path { color: var(--vscode-descriptionForeground); }
+  .file-stats { font-size: 11px; white-space: nowrap; }
+  .binary { color: var(--vscode-descriptionForeground); }
+  .added, .status-added { color: var(--vscode-gitDecoration-addedResourceForeground); }
+  .removed, .status-deleted { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+  .status-modified { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+  button {
+    background-color: var(--vscode-button-background); color: var(--vscode-button-foreground);
+    border: none; border-radius: 2px; padding: 2px 10px; font: inherit; font-size: 12px; cursor: pointer;
+  }
+  button:hover { background-color: var(--vscode-button-hoverBackground); }
+  button:disabled { opacity: 0.5; cursor: default; }
+  button.secondary { background-color: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+  button.secondary:hover:not(:disabled) { background-color: var(--vscode-button-secondaryHoverBackground); }
+</style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+}
+
+export function getRebaseEditorHtml(webview: vscode.Webview, data: RebaseEditorData, extensionUri: vscode.Uri): string {
+    const scriptUri = webview.asWebviewUri(
+        vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'rebaseEditor', 'index.js'),
+    );
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';">
+<title>Interactive Rebase</title>
+<style>
+  body {
+    font-family: var(--vscode-font-family); font-size: 13px;
+    color: var(--vscode-foreground); background-color: var(--vscode-editor-background);
+    margin: 0; padding: 20px 24px; line-height: 1.5;
+  }
+  .title { font-size: 16px; font-weight: 600; margin: 0 0 4px 0; }
+  .hint { color: var(--vscode-descriptionForeground); font-size: 12px; margin: 0 0 16px 0; }
+  .section-title {
+    font-size: 11px; font-weight: 600; text-transform: uppercase;
+    letter-spacing: 0.06em; color: var(--vscode-descriptionForeground); margin: 20px 0 10px 0;
+  }
+  .entry {
+    border: 1px solid var(--vscode-panel-border); border-radius: 6px; margin-bottom: 6px;
+    background-color: var(--vscode-sideBar-background);
+  }
+  .entry.dragging { opacity: 0.4; }
+  .entry.drop-target { border-color: var(--vscode-focusBorder); }
+  .entry.dropped .entry-subject { text-decoration: line-through; color: var(--vscode-descriptionForeground); }
+  .entry-header { display: flex; align-items: center; gap: 10px; padding: 5px 10px; }
+  .drag-handle { cursor: grab; color: var(--vscode-descriptionForeground); user-select: none; }
+  .entry-hash { font-family: var(--vscode-editor-font-family); font-size: 11px; color: var(--vscode-textPreformat-foreground); }
+  .entry-subject { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  select, textarea {
+    background-color: var(--vscode-input-background); color: var(--vscode-input-foreground);
+    border: 1px solid var(--vscode-input-border, transparent); border-radius: 2px; font: inherit; outline: none;
+  }
+  select:focus, textarea:focus { border-color: var(--vscode-focusBorder); }
+  textarea {
+    display: block; box-sizing: border-box; width: calc(100% - 20px); margin: 0 10px 8px 10px; padding: 4px 6px;
+    font-family: var(--vscode-editor-font-family); font-size: 12px; resize: vertical;
+  }
+  pre.todo {
+    margin: 0; padding: 8px 12px; font-family: var(--vscode-editor-font-family); font-size: 12px;
+    border: 1px solid var(--vscode-panel-border); border-radius: 6px; overflow-x: auto;
+  }
+  .error { color: var(--vscode-errorForeground); font-size: 12px; margin-top: 12px; }
+  .actions { display: flex; gap: 8px; margin-top: 16px; }
+  button {
+    background-color: var(--vscode-button-background); color: var(--vscode-button-foreground);
+    border: none; border-radius: 2px; padding: 4px 14px; font: inherit; cursor: pointer;
+  }
+  button:hover { background-color: var(--vscode-button-hoverBackground); }
+  button:disabled { opacity: 0.5; cursor: default; }
+  button.secondary { background-color: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+</style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}">window.__REBASE_EDITOR__ = ${JSON.stringify(data).replace(/</g, '\\u003c')};</script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+}